@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DatabaseService } from '@/app/lib/database';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { network, maxBlocks = 200 } = body;
+
+    const result = await DatabaseService.backfillEventTimestamps(network, Number(maxBlocks));
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error backfilling block timestamps:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to backfill block timestamps'
+    }, { status: 500 });
+  }
+}
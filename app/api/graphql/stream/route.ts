@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { parse, validate, execute, subscribe, getOperationAST, GraphQLError, type ExecutionResult } from 'graphql';
+import { typeDefs, resolvers } from '@/app/lib/apollo-server';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections from being closed by proxies
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000;
+
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+interface GraphQLParams {
+  query?: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+const badRequest = (error: string) => NextResponse.json({ success: false, error }, { status: 400 });
+
+// Operations a GET may run; any link or image can send one, so mutations must use POST
+const GET_OPERATIONS = ['query', 'subscription'];
+
+/**
+ * GraphQL over server-sent events, in the single connection per operation style of graphql-sse.
+ * Each result is a "next" event and the stream ends with "complete". Subscriptions stay open
+ * until the client disconnects; queries and mutations complete after their only result.
+ */
+async function handle(request: NextRequest, params: GraphQLParams, method: 'GET' | 'POST') {
+  if (!params.query) {
+    return badRequest('Missing GraphQL query');
+  }
+
+  let document;
+  try {
+    document = parse(params.query);
+  } catch (error) {
+    return badRequest(error instanceof GraphQLError ? error.message : 'Invalid GraphQL query');
+  }
+
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return NextResponse.json({ errors: validationErrors.map(error => error.toJSON()) }, { status: 400 });
+  }
+
+  const operation = getOperationAST(document, params.operationName);
+  if (!operation) {
+    return badRequest('Unable to identify the GraphQL operation to run');
+  }
+
+  if (method === 'GET' && !GET_OPERATIONS.includes(operation.operation)) {
+    return NextResponse.json({
+      success: false,
+      error: `${operation.operation} operations must be sent with POST`
+    }, { status: 405, headers: { Allow: 'POST' } });
+  }
+
+  const args = {
+    schema,
+    document,
+    variableValues: params.variables,
+    operationName: params.operationName,
+    contextValue: { req: request },
+  };
+
+  const result = operation.operation === 'subscription'
+    ? await subscribe(args)
+    : await execute(args);
+
+  const encoder = new TextEncoder();
+  let iterator: AsyncIterator<ExecutionResult> | null = null;
+  let keepAlive: NodeJS.Timeout | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${data === undefined ? '' : JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (keepAlive) clearInterval(keepAlive);
+        send('complete', undefined);
+        controller.close();
+      };
+
+      if (!(Symbol.asyncIterator in result)) {
+        send('next', result);
+        close();
+        return;
+      }
+
+      iterator = result[Symbol.asyncIterator]();
+      keepAlive = setInterval(() => controller.enqueue(encoder.encode(':\n\n')), KEEP_ALIVE_INTERVAL_MS);
+
+      // Runs in the background so each result is flushed as soon as it is published
+      const run = async () => {
+        try {
+          while (iterator) {
+            const { value, done } = await iterator.next();
+            if (done) break;
+            send('next', value);
+          }
+          if (iterator) close();
+        } catch (error) {
+          console.error('Error streaming GraphQL subscription:', error);
+          if (!iterator) return;
+          send('next', { errors: [{ message: error instanceof Error ? error.message : 'Subscription failed' }] });
+          close();
+        }
+      };
+
+      run();
+    },
+    cancel() {
+      if (keepAlive) clearInterval(keepAlive);
+      const active = iterator;
+      iterator = null;
+      active?.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// EventSource clients can only send GET, so the operation comes in the query string.
+// Mutations are refused here and must be POSTed.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const variables = searchParams.get('variables');
+
+  try {
+    return await handle(request, {
+      query: searchParams.get('query') ?? undefined,
+      variables: variables ? JSON.parse(variables) : undefined,
+      operationName: searchParams.get('operationName') ?? undefined,
+    }, 'GET');
+  } catch (error) {
+    console.error('GraphQL stream error:', error);
+    return badRequest(error instanceof SyntaxError ? 'Variables must be JSON' : 'Failed to start GraphQL stream');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // A JSON content type can't be sent by a plain HTML form
+  if (!request.headers.get('content-type')?.includes('application/json')) {
+    return NextResponse.json({
+      success: false,
+      error: 'Content-Type must be application/json'
+    }, { status: 415 });
+  }
+
+  try {
+    return await handle(request, await request.json(), 'POST');
+  } catch (error) {
+    console.error('GraphQL stream error:', error);
+    return badRequest(error instanceof SyntaxError ? 'Request body must be JSON' : 'Failed to start GraphQL stream');
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobService } from '@/app/lib/jobs';
+import { GapService } from '@/app/lib/gaps';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await JobService.getJob(id);
+
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: `Indexing job ${id} not found`
+      }, { status: 404 });
+    }
+
+    // Failed ranges inside the job that are still waiting for a successful retry
+    const gaps = await GapService.getOpenGapsInRange(job.contractAddress, job.network, job.fromBlock, job.toBlock);
+
+    return NextResponse.json({
+      success: true,
+      data: JobService.formatJob(job),
+      metadata: {
+        openGaps: gaps.length,
+        gaps: gaps.map(GapService.formatGap)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching indexing job:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch indexing job'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobService } from '@/app/lib/jobs';
+import { GapService } from '@/app/lib/gaps';
+import { prisma } from '@/app/lib/database';
+import { ANY_ADDRESS } from '@/app/lib/indexer';
+import type { Event, IndexingJob, IndexingJobChunk } from '@/app/generated/prisma';
+
+export const dynamic = 'force-dynamic';
+
+// How often to re-read the job's progress
+const STREAM_POLL_INTERVAL_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isFinished = (status: string) => status === 'completed' || status === 'failed';
+
+// Stored events shaped like the dashboard's event list
+const formatEvent = (event: Event) => ({
+  address: event.contractAddress,
+  topics: event.indexedParams,
+  data: event.data,
+  blockNumber: event.blockNumber.toString(),
+  transactionHash: event.transactionHash,
+  transactionIndex: String(event.transactionIndex),
+  blockHash: event.blockHash,
+  logIndex: String(event.logIndex),
+  removed: false,
+  eventName: event.eventName,
+});
+
+// Events the job stored in a completed chunk's blocks
+const getChunkEvents = async (job: IndexingJob, chunk: IndexingJobChunk) => {
+  const addresses = [job.contractAddress, ...job.addresses].filter(address => address !== ANY_ADDRESS);
+
+  return await prisma.event.findMany({
+    where: {
+      network: job.network,
+      blockNumber: { gte: chunk.fromBlock, lte: chunk.toBlock },
+      ...(addresses.length > 0 && { contractAddress: { in: addresses } }),
+      ...(job.eventsToTrack.length > 0 && { eventName: { in: job.eventsToTrack } }),
+    },
+    orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+  });
+};
+
+/**
+ * Server-sent progress for an indexing job. The stream only reads: the worker processes
+ * the chunks, and the stream polls the job and emits:
+ * job, chunk (per finished chunk), events (logs stored by a chunk), progress, summary, error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await JobService.getJob(id);
+
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: `Indexing job ${id} not found`
+    }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const isCancelled = () => cancelled || request.signal.aborted;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (isCancelled()) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Runs in the background so each event is flushed as soon as it is sent
+      const run = async () => {
+        try {
+          send('job', JobService.formatJob(job));
+
+          // Chunks already reported, so each finished chunk is sent once
+          const reported = new Set<string>();
+          let current = job;
+
+          while (!isCancelled()) {
+            for (const chunk of current.chunks) {
+              if (reported.has(chunk.id) || !isFinished(chunk.status)) continue;
+              reported.add(chunk.id);
+
+              send('chunk', {
+                fromBlock: chunk.fromBlock.toString(),
+                toBlock: chunk.toBlock.toString(),
+                status: chunk.status,
+                eventsFound: chunk.eventsFound,
+                error: chunk.error,
+              });
+              if (chunk.status === 'completed' && chunk.eventsFound > 0) {
+                send('events', {
+                  fromBlock: chunk.fromBlock.toString(),
+                  toBlock: chunk.toBlock.toString(),
+                  events: (await getChunkEvents(current, chunk)).map(formatEvent),
+                });
+              }
+            }
+
+            if (current !== job) {
+              send('progress', JobService.formatJob(current));
+            }
+            if (isFinished(current.status)) break;
+
+            await sleep(STREAM_POLL_INTERVAL_MS);
+            const next = await JobService.getJob(id);
+            if (!next) throw new Error(`Indexing job ${id} was deleted`);
+            current = next;
+          }
+
+          if (isFinished(current.status)) {
+            const gaps = await GapService.getOpenGapsInRange(current.contractAddress, current.network, current.fromBlock, current.toBlock);
+            send('summary', {
+              job: JobService.formatJob(current),
+              openGaps: gaps.length,
+              gaps: gaps.map(GapService.formatGap),
+            });
+          }
+        } catch (error) {
+          console.error('Error streaming indexing job:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Failed to stream indexing job' });
+        } finally {
+          if (!isCancelled()) controller.close();
+        }
+      };
+
+      run();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -1,25 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicClient, http, parseAbi, Log } from 'viem';
-import { mainnet, sepolia } from 'viem/chains';
-import { DatabaseService } from '@/app/lib/database';
+import { isAddress } from 'viem';
+import { BlockchainService } from '@/app/lib/blockchain';
+import { ChainService } from '@/app/lib/chains';
+import { DatabaseService, normalizeAddress } from '@/app/lib/database';
+import { IndexerService, ABIItem, TopicFilter, ANY_ADDRESS } from '@/app/lib/indexer';
+import { JobService } from '@/app/lib/jobs';
+import { GapService } from '@/app/lib/gaps';
+import { FactoryService } from '@/app/lib/factory';
+import { CheckpointService } from '@/app/lib/checkpoints';
+
+const BLOCK_NUMBER_PATTERN = /^\d+$/;
 
 // Type definitions
 interface IndexerRequest {
-  contractAddress: `0x${string}`;
+  // One of: a single contract, a list of contracts sharing the ABI, or any emitter
+  contractAddress?: `0x${string}`;
+  contractAddresses?: `0x${string}`[];
+  anyAddress?: boolean;
   contractABI: string;
-  eventsToTrack: string[];
-  network?: 'mainnet' | 'sepolia';
+  // Event names, and/or raw topic filters (required for anonymous events)
+  eventsToTrack?: string[];
+  topicFilters?: TopicFilter[];
+  // Registers every child announced by the factory event, indexed from its creation block
+  factory?: {
+    eventName: string;
+    childAddressArg: string;
+    childABI: string;
+    childEventsToTrack?: string[];
+  };
+  network?: string;
+  // A block number, 'earliest' (the default: the block the contracts were deployed in),
+  // or 'resume' to continue after the checkpoint of this event set
   fromBlock?: string;
   toBlock?: string;
+  // ISO 8601 dates instead of block numbers, resolved to the blocks produced in that range
+  fromDate?: string;
+  toDate?: string;
 }
 
 interface IndexerResponse {
   success: boolean;
-  events?: Log[];
+  jobId?: string;
+  job?: ReturnType<typeof JobService.formatJob>;
   error?: string;
+  message?: string;
   metadata?: {
     contractAddress: string;
+    contractAddresses?: string[];
+    anyAddress?: boolean;
     eventsTracked: string[];
+    topicFilters?: TopicFilter[];
+    factoryEvent?: string;
     network: string;
     blockRange: {
       from: string;
@@ -31,104 +62,71 @@ interface IndexerResponse {
       storedEvents: number;
       contractId?: string;
     };
+    // Block the request resumed after
+    checkpoint?: string;
+    // Unresolved failed ranges already recorded for this contract
+    openGaps?: number;
+    gaps?: ReturnType<typeof GapService.formatGap>[];
   };
 }
 
-interface ABIInput {
-  type: string;
-  name: string;
-  indexed?: boolean;
-}
-
-interface ABIEvent {
-  type: string;
-  name: string;
-  inputs?: ABIInput[];
-}
-
-interface ABIItem {
-  type: string;
-  name?: string;
-  inputs?: ABIInput[];
-}
-
-// Convert BigInt values to strings for JSON serialization
-const serializeBigIntValues = (obj: unknown): unknown => {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-  
-  if (typeof obj === 'bigint') {
-    return obj.toString();
-  }
-  
-  if (Array.isArray(obj)) {
-    return obj.map(item => serializeBigIntValues(item));
-  }
-  
-  if (typeof obj === 'object') {
-    const serialized: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(obj)) {
-      serialized[key] = serializeBigIntValues(value);
-    }
-    return serialized;
-  }
-  
-  return obj;
-};
-
-// Network configuration
-const getNetworkConfig = (network: string) => {
-  switch (network) {
-    case 'mainnet':
-      return {
-        chain: mainnet,
-        rpcUrl: process.env.ALCHEMY_MAINNET_URL
-      };
-    case 'sepolia':
-    default:
-      return {
-        chain: sepolia,
-        rpcUrl: process.env.ALCHEMY_SEPOLIA_URL
-      };
-  }
-};
-
-// Extract event signatures from ABI
-const extractEventSignatures = (abi: ABIItem[], eventsToTrack: string[]) => {
-  const events = abi.filter((item): item is ABIEvent => 
-    item.type === 'event' && 
-    item.name !== undefined &&
-    eventsToTrack.includes(item.name)
-  );
-  
-  return events.map(event => ({
-    name: event.name,
-    signature: event
-  }));
-};
-
 export async function POST(request: NextRequest) {
   try {
     const body: IndexerRequest = await request.json();
     
     const {
       contractAddress,
+      contractAddresses,
+      anyAddress = false,
       contractABI,
-      eventsToTrack,
+      eventsToTrack: requestedEvents = [],
+      topicFilters = [],
+      factory,
       network = 'sepolia',
       fromBlock = 'earliest',
-      toBlock = 'latest'
+      toBlock = 'latest',
+      fromDate,
+      toDate
     } = body;
 
     // Validate required fields
-    if (!contractAddress || !contractABI || !eventsToTrack.length) {
+    if (!contractABI || (!requestedEvents.length && !topicFilters.length)) {
       return NextResponse.json({
         success: false,
-        error: 'Missing required fields: contractAddress, contractABI, or eventsToTrack'
+        error: 'Missing required fields: contractABI, and eventsToTrack or topicFilters'
       }, { status: 400 });
     }
 
+    const addressModes = [contractAddress !== undefined, contractAddresses !== undefined, anyAddress].filter(Boolean).length;
+    if (addressModes !== 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide exactly one of contractAddress, contractAddresses or anyAddress: true'
+      }, { status: 400 });
+    }
+
+    if (contractAddresses !== undefined && (!Array.isArray(contractAddresses) || contractAddresses.length === 0)) {
+      return NextResponse.json({
+        success: false,
+        error: 'contractAddresses must be a non-empty array'
+      }, { status: 400 });
+    }
+
+    const addresses = contractAddresses
+      ? [...new Set(contractAddresses.map(address => normalizeAddress(address) as `0x${string}`))]
+      : contractAddress ? [normalizeAddress(contractAddress) as `0x${string}`] : [];
+
+    const invalidAddresses = addresses.filter(address => !isAddress(address, { strict: false }));
+    if (invalidAddresses.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid contract address: ${invalidAddresses.join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Gaps, indexing status and the job are keyed by the first address, or by the "any address" key
+    const trackingKey = anyAddress ? ANY_ADDRESS : addresses[0];
+
     // Parse ABI
     let parsedABI;
     try {
@@ -140,189 +138,289 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Get network configuration
-    const { chain, rpcUrl } = getNetworkConfig(network);
+    // Validate raw topic filters
+    const topicFilterError = IndexerService.validateTopicFilters(topicFilters, parsedABI);
+    if (topicFilterError) {
+      return NextResponse.json({
+        success: false,
+        error: topicFilterError
+      }, { status: 400 });
+    }
+
+    // Validate the factory configuration
+    let childABI: ABIItem[] = [];
+    if (factory) {
+      if (anyAddress) {
+        return NextResponse.json({
+          success: false,
+          error: 'A factory needs contractAddress or contractAddresses'
+        }, { status: 400 });
+      }
+
+      try {
+        childABI = JSON.parse(factory.childABI);
+      } catch {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid child ABI format. Please provide valid JSON.'
+        }, { status: 400 });
+      }
+
+      const factoryError = FactoryService.validateFactoryConfig({ ...factory, childAbi: childABI }, parsedABI);
+      if (factoryError) {
+        return NextResponse.json({
+          success: false,
+          error: factoryError
+        }, { status: 400 });
+      }
+    }
+
+    // The factory event is always fetched; an empty event list already tracks every ABI event
+    const eventsToTrack = factory && (requestedEvents.length > 0 || topicFilters.length > 0) && !requestedEvents.includes(factory.eventName)
+      ? [...requestedEvents, factory.eventName]
+      : requestedEvents;
+
+    const invalidBlock = [
+      { field: 'fromBlock', value: fromBlock, keywords: ['earliest', 'resume'] },
+      { field: 'toBlock', value: toBlock, keywords: ['latest'] },
+    ].find(({ value, keywords }) => !keywords.includes(String(value)) && !BLOCK_NUMBER_PATTERN.test(String(value)));
+    if (invalidBlock) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid ${invalidBlock.field}: ${invalidBlock.value}. Use a non-negative block number or one of: ${invalidBlock.keywords.join(', ')}.`
+      }, { status: 400 });
+    }
+
+    // Resolve the network from the Chain table
+    const chain = await ChainService.getChain(network);
+    if (!chain || !chain.isActive) {
+      return NextResponse.json({
+        success: false,
+        error: `Unsupported network: ${network}. Register it with the registerChain mutation first.`
+      }, { status: 400 });
+    }
 
     // Create Viem client
-    const client = createPublicClient({
-      chain,
-      transport: http(rpcUrl)
-    });
+    const client = await BlockchainService.createClient(network);
 
     // Extract event signatures from ABI
-    const eventSignatures = extractEventSignatures(parsedABI, eventsToTrack);
-    
-    if (eventSignatures.length === 0) {
+    const { eventSignatures } = IndexerService.resolveTracking(parsedABI, eventsToTrack, topicFilters);
+
+    if (eventsToTrack.length > 0 && eventSignatures.length === 0) {
       return NextResponse.json({
         success: false,
         error: `No matching events found in ABI for: ${eventsToTrack.join(', ')}`
       }, { status: 400 });
     }
 
+    // Anonymous events have no topic0, so they are only matched through a topic filter naming them
+    const unfilteredAnonymous = eventSignatures.filter(eventSig =>
+      eventSig.signature.anonymous && !topicFilters.some(filter => filter.eventName === eventSig.name)
+    );
+    if (eventsToTrack.length > 0 && unfilteredAnonymous.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Anonymous events need a topic filter with their eventName: ${unfilteredAnonymous.map(eventSig => eventSig.name).join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Every tracked event must be a valid Solidity event definition
+    const filterEventNames = topicFilters.flatMap(filter => filter.eventName ? [filter.eventName] : []);
+    const filterEvents = filterEventNames.length > 0
+      ? IndexerService.extractEventSignatures(parsedABI, filterEventNames)
+      : [];
+    const invalidEvents = [...eventSignatures, ...filterEvents]
+      .filter(eventSig => !IndexerService.isValidEventSignature(eventSig));
+    if (invalidEvents.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid event definitions in ABI: ${invalidEvents.map(eventSig => eventSig.name).join(', ')}`
+      }, { status: 400 });
+    }
+
+    if ((fromDate !== undefined && body.fromBlock !== undefined) || (toDate !== undefined && body.toBlock !== undefined)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide either fromBlock or fromDate, and either toBlock or toDate'
+      }, { status: 400 });
+    }
+
+    const invalidDate = [fromDate, toDate].find(date => date !== undefined && Number.isNaN(new Date(date).getTime()));
+    if (invalidDate !== undefined) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid date: ${invalidDate}. Use an ISO 8601 date.`
+      }, { status: 400 });
+    }
+
     // Get current block number for metadata
     const currentBlock = await client.getBlockNumber();
     
     // Calculate block range
-    const fromBlockNum = fromBlock === 'earliest' ? BigInt(0) : BigInt(fromBlock);
-    const toBlockNum = toBlock === 'latest' ? currentBlock : BigInt(toBlock);
+    let fromBlockNum = fromBlock === 'earliest' || fromBlock === 'resume' ? BigInt(0) : BigInt(fromBlock);
+    let toBlockNum = toBlock === 'latest' ? currentBlock : BigInt(toBlock);
 
-    // Alchemy limitation: max 500 blocks per request
-    const MAX_BLOCKS_PER_REQUEST = BigInt(500);
-    const totalBlockRange = toBlockNum - fromBlockNum;
-    
-    // comment
-    console.log(`Total block range: ${totalBlockRange} blocks (from ${fromBlockNum} to ${toBlockNum})`);
-    
-    // Warn about large block ranges
-    if (totalBlockRange > BigInt(10000)) {
-      console.warn(`Large block range detected: ${totalBlockRange} blocks. This may take a while.`);
-    }
-    
-    // Limit extremely large ranges to prevent timeout
-    if (totalBlockRange > BigInt(50000)) {
+    if (toBlockNum > currentBlock) {
       return NextResponse.json({
         success: false,
-        error: `Block range too large: ${totalBlockRange} blocks. Please use a smaller range (max 50,000 blocks) to prevent timeout.`
+        error: `toBlock ${toBlockNum} is past the latest block on ${network} (${currentBlock})`
       }, { status: 400 });
     }
 
-    // Function to fetch logs in batches
-    const fetchLogsInBatches = async (eventSig: { name: string; signature: ABIEvent }) => {
-      const logs: Log[] = [];
-      let currentFromBlock = fromBlockNum;
-      
-      // Create event ABI for this specific event
-      const eventAbi = parseAbi([
-        `event ${eventSig.signature.name}(${eventSig.signature.inputs?.map((input: ABIInput) => `${input.type} ${input.indexed ? 'indexed ' : ''}${input.name}`).join(', ') || ''})`
-      ] as const);
-
-      while (currentFromBlock <= toBlockNum) {
-        const currentToBlock = currentFromBlock + MAX_BLOCKS_PER_REQUEST - BigInt(1);
-        const batchToBlock = currentToBlock > toBlockNum ? toBlockNum : currentToBlock;
-        // comment
-        console.log(`Fetching logs for ${eventSig.name} from block ${currentFromBlock} to ${batchToBlock}`);
-        
-        try {
-          const batchLogs = await client.getLogs({
-            address: contractAddress,
-            event: eventAbi[0],
-            fromBlock: currentFromBlock,
-            toBlock: batchToBlock,
-          });
-
-          // Add event name to each log for easier identification
-          const logsWithEventName = batchLogs.map((log: Log) => ({
-            ...log,
-            eventName: eventSig.name
-          }));
-
-          logs.push(...logsWithEventName);
-          console.log(`Found ${batchLogs.length} events in batch (${currentFromBlock} to ${batchToBlock})`);
-          
-        } catch (batchError) {
-          console.error(`Error fetching batch ${currentFromBlock}-${batchToBlock} for event ${eventSig.name}:`, batchError);
-          // Continue with next batch even if current batch fails
+    // Dates resolve to the first block at or after fromDate and the last block at or before toDate
+    if (fromDate !== undefined) {
+      const block = await BlockchainService.getBlockNumberByTimestamp(network, new Date(fromDate), 'after');
+      if (block === null) {
+        return NextResponse.json({
+          success: false,
+          error: `No blocks on ${network} at or after ${fromDate}`
+        }, { status: 400 });
+      }
+      fromBlockNum = block;
+    }
+
+    if (toDate !== undefined) {
+      const block = await BlockchainService.getBlockNumberByTimestamp(network, new Date(toDate), 'before');
+      if (block === null) {
+        return NextResponse.json({
+          success: false,
+          error: `No blocks on ${network} at or before ${toDate}`
+        }, { status: 400 });
+      }
+      toBlockNum = block;
+    }
+
+    // 'earliest' starts where the first of the contracts was deployed rather than at genesis
+    if (fromBlock === 'earliest' && fromDate === undefined) {
+      if (anyAddress) {
+        return NextResponse.json({
+          success: false,
+          error: 'anyAddress needs a fromBlock number or fromDate'
+        }, { status: 400 });
+      }
+
+      let creationBlock: bigint | undefined;
+      for (const address of addresses) {
+        const addressCreationBlock = await BlockchainService.getContractCreationBlock(network, address);
+        if (addressCreationBlock === null) {
+          return NextResponse.json({
+            success: false,
+            error: `No contract code at ${address} on ${network}`
+          }, { status: 400 });
+        }
+        if (creationBlock === undefined || addressCreationBlock < creationBlock) {
+          creationBlock = addressCreationBlock;
+        }
+      }
+
+      fromBlockNum = creationBlock!;
+    }
+
+    // Resume after the lowest checkpoint of the tracked addresses for this event set
+    let checkpoint: bigint | undefined;
+    if (fromBlock === 'resume') {
+      const eventSet = CheckpointService.eventSetKey(eventSignatures.map(eventSig => eventSig.name), topicFilters);
+
+      for (const address of anyAddress ? [ANY_ADDRESS] : addresses) {
+        const addressCheckpoint = await CheckpointService.getCheckpoint(address, network, eventSet);
+        if (!addressCheckpoint) {
+          return NextResponse.json({
+            success: false,
+            error: `No checkpoint for ${address} on ${network} with these events; index a block range first`
+          }, { status: 400 });
         }
-        
-        currentFromBlock = batchToBlock + BigInt(1);
-        
-        // Add a small delay to avoid rate limiting
-        if (currentFromBlock <= toBlockNum) {
-          await new Promise(resolve => setTimeout(resolve, 100));
+        if (checkpoint === undefined || addressCheckpoint.lastScannedBlock < checkpoint) {
+          checkpoint = addressCheckpoint.lastScannedBlock;
         }
       }
-      
-      return logs;
-    };
 
-    // Fetch logs for each event type using batch processing
-    const allLogs: Log[] = [];
-    
-    for (const eventSig of eventSignatures) {
-      try {
-        console.log(`Starting batch fetch for event: ${eventSig.name}`);
-        const eventLogs = await fetchLogsInBatches(eventSig);
-        allLogs.push(...eventLogs);
-        console.log(`Total logs found for ${eventSig.name}: ${eventLogs.length}`);
-      } catch (eventError) {
-        console.error(`Error fetching logs for event ${eventSig.name}:`, eventError);
-        // Continue with other events even if one fails
+      fromBlockNum = checkpoint! + BigInt(1);
+
+      if (fromBlockNum > toBlockNum) {
+        return NextResponse.json({
+          success: true,
+          message: `Already indexed through block ${checkpoint}`,
+        });
       }
     }
 
-    // Sort logs by block number and log index
-    allLogs.sort((a, b) => {
-      const blockDiff = Number(a.blockNumber) - Number(b.blockNumber);
-      if (blockDiff !== 0) return blockDiff;
-      return Number(a.logIndex) - Number(b.logIndex);
-    });
+    if (toBlockNum < fromBlockNum) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid block range: fromBlock ${fromBlockNum} is after toBlock ${toBlockNum}`
+      }, { status: 400 });
+    }
 
-    // Store events in database
-    let databaseStatus = 'not-attempted';
-    let storedEvents = 0;
-    let contractId: string | undefined;
-    
-    try {
-      console.log('Storing events in database...');
-      
-      // First, create or update the contract record
-      const contract = await DatabaseService.createOrUpdateContract(
-        contractAddress,
+    // comment
+    console.log(`Enqueuing indexing job for ${toBlockNum - fromBlockNum + BigInt(1)} blocks (from ${fromBlockNum} to ${toBlockNum})`);
+
+    // Register the contracts so the worker can load their ABI and follow them.
+    // An "any address" subscription is registered under its own key; emitters get rows as they are found.
+    const contracts = [];
+    for (const address of anyAddress ? [ANY_ADDRESS] : addresses) {
+      contracts.push(await DatabaseService.createOrUpdateContract(
+        address,
         parsedABI,
         network,
-        `Contract ${contractAddress.slice(0, 8)}...`
-      );
-      
-      contractId = contract.id;
-      
-      // Store events in database
-      if (allLogs.length > 0) {
-        await DatabaseService.storeEvents(allLogs, contract.id, network);
-        storedEvents = allLogs.length;
-        console.log(`Stored ${allLogs.length} events in database`);
-        
-        // Update indexing status
-        const lastBlock = allLogs[allLogs.length - 1].blockNumber;
-        await DatabaseService.updateIndexingStatus(
-          contractAddress, 
-          network, 
-          BigInt(String(lastBlock))
-        );
-        
-        databaseStatus = 'success';
-      } else {
-        databaseStatus = 'no-events';
+        anyAddress ? 'Any address' : `Contract ${address.slice(0, 8)}...`,
+        eventsToTrack,
+        topicFilters as unknown as Record<string, unknown>[]
+      ));
+    }
+
+    if (factory) {
+      for (const contract of contracts) {
+        await FactoryService.configureFactory(contract.id, {
+          eventName: factory.eventName,
+          childAddressArg: factory.childAddressArg,
+          childAbi: childABI,
+          childEventsToTrack: factory.childEventsToTrack,
+        });
       }
-    } catch (dbError) {
-      console.error('Database storage error:', dbError);
-      databaseStatus = 'error';
-      // Continue without failing the API call
     }
 
+    // Large ranges are split into chunks and processed by the background worker
+    const job = await JobService.createJob({
+      contractAddress: trackingKey,
+      ...(contractAddresses && { addresses }),
+      network,
+      eventsToTrack,
+      topicFilters,
+      fromBlock: fromBlockNum,
+      toBlock: toBlockNum,
+    });
+
+    const gaps = await GapService.getGaps(trackingKey, network);
+
     const response: IndexerResponse = {
       success: true,
-      events: allLogs,
+      jobId: job.id,
+      job: JobService.formatJob(job),
       metadata: {
-        contractAddress,
+        contractAddress: trackingKey,
+        ...(contractAddresses && { contractAddresses: addresses }),
+        ...(anyAddress && { anyAddress }),
         eventsTracked: eventsToTrack,
+        topicFilters,
+        ...(factory && { factoryEvent: factory.eventName }),
         network,
         blockRange: {
           from: fromBlockNum.toString(),
           to: toBlockNum.toString()
         },
-        totalEvents: allLogs.length,
+        totalEvents: 0,
         database: {
-          status: databaseStatus,
-          storedEvents,
-          contractId
-        }
+          status: 'queued',
+          storedEvents: 0,
+          contractId: contracts[0].id
+        },
+        ...(checkpoint !== undefined && { checkpoint: checkpoint.toString() }),
+        openGaps: gaps.length,
+        gaps: gaps.map(GapService.formatGap)
       }
     };
 
-    // Serialize BigInt values before sending response
-    const serializedResponse = serializeBigIntValues(response) as IndexerResponse;
-
-    return NextResponse.json(serializedResponse);
+    return NextResponse.json(response, { status: 202 });
 
   } catch (error) {
     console.error('Indexer API Error:', error);
@@ -340,7 +438,9 @@ export async function GET() {
     success: true,
     message: 'Web3 Indexer API is running',
     endpoints: {
-      POST: '/api/indexer - Start indexing with contract details'
+      POST: '/api/indexer - Enqueue an indexing job with contract details',
+      GET_JOB: '/api/indexer/jobs/:id - Indexing job status and progress',
+      STREAM_JOB: '/api/indexer/jobs/:id/stream - Server-sent progress events for an indexing job'
     }
   });
 }
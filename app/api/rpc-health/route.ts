@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlockchainService } from '@/app/lib/blockchain';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const network = searchParams.get('network') || undefined;
+    const probe = searchParams.get('probe') === 'true';
+
+    const health = await BlockchainService.getRpcHealth(network, probe);
+
+    return NextResponse.json({
+      success: true,
+      data: health
+    });
+  } catch (error) {
+    console.error('Error fetching RPC health:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch RPC health'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/app/lib/database';
+import { PaginationService } from '@/app/lib/pagination';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,8 +19,7 @@ export async function POST(request: NextRequest) {
       contractAddress,
       network,
       eventName,
-      limit: 1, // Just get range info, not actual events
-      offset: 0,
+      page: PaginationService.parse({ first: 1 }), // Just get range info, not actual events
     });
 
     return NextResponse.json({
@@ -57,8 +57,7 @@ export async function GET(request: NextRequest) {
       contractAddress,
       network,
       eventName,
-      limit: 1, // Just get range info
-      offset: 0,
+      page: PaginationService.parse({ first: 1 }), // Just get range info
     });
 
     return NextResponse.json({
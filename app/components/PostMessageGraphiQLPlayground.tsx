@@ -170,24 +170,24 @@ query GetEvents {
     filters: {
       network: "sepolia"
     }
-    pagination: {
-      page: 1
-      limit: 10
-    }
+    first: 10
   ) {
-    events {
-      id
-      eventName
-      blockNumber
-      transactionHash
-      contractAddress
-      createdAt
+    edges {
+      cursor
+      node {
+        id
+        eventName
+        blockNumber
+        transactionHash
+        contractAddress
+        createdAt
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
     }
     totalCount
-    hasNextPage
-    hasPreviousPage
-    currentPage
-    totalPages
   }
 }
 
@@ -196,18 +196,17 @@ query GetEventsByContract {
   getEventsByContract(
     contractAddress: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238"
     network: "sepolia"
-    pagination: {
-      page: 1
-      limit: 5
-    }
+    first: 5
   ) {
-    events {
-      id
-      eventName
-      blockNumber
-      transactionHash
-      data
-      indexedParams
+    edges {
+      node {
+        id
+        eventName
+        blockNumber
+        transactionHash
+        data
+        indexedParams
+      }
     }
     totalCount
   }
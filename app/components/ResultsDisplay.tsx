@@ -1,8 +1,11 @@
 'use client';
 
-import { useState } from 'react';
-import { useQuery } from '@apollo/client/react';
-import { GET_EVENTS } from '@/app/lib/graphql-queries';
+import { useEffect, useState } from 'react';
+import { useQuery, useSubscription } from '@apollo/client/react';
+import { GET_EVENTS, EVENT_ADDED } from '@/app/lib/graphql-queries';
+
+// Live events refresh the first page at most this often
+const LIVE_REFRESH_INTERVAL_MS = 3000;
 
 interface Event {
   id: string;
@@ -26,13 +29,13 @@ interface Event {
   };
 }
 
-interface EventsResponse {
-  events: Event[];
-  totalCount: number;
-  hasNextPage: boolean;
-  hasPreviousPage: boolean;
-  currentPage: number;
-  totalPages: number;
+interface EventConnection {
+  edges: { cursor: string; node: Event }[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+  totalCount: number | null;
 }
 
 interface ResultsDisplayProps {
@@ -41,27 +44,52 @@ interface ResultsDisplayProps {
 }
 
 export function ResultsDisplay({ filters, refreshTrigger }: ResultsDisplayProps) {
-  const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(25);
   const [viewMode, setViewMode] = useState<'table' | 'json'>('table');
   const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
 
   // Query events with current filters and pagination
-  const { data, loading, error, refetch } = useQuery<{ getEvents: EventsResponse }>(GET_EVENTS, {
+  const { data, loading, error, refetch, fetchMore } = useQuery<{ getEvents: EventConnection }>(GET_EVENTS, {
     variables: {
       filters: Object.keys(filters).length > 0 ? 
         Object.fromEntries(
           Object.entries(filters).filter(([, value]) => value !== undefined)
         ) : undefined,
-      pagination: {
-        page: currentPage,
-        limit: pageSize,
-      },
+      first: pageSize,
     },
     fetchPolicy: 'cache-and-network',
     notifyOnNetworkStatusChange: true,
   });
 
+  // Count events indexed since the last refresh that match the filters
+  const [liveEventCount, setLiveEventCount] = useState(0);
+  useSubscription(EVENT_ADDED, {
+    variables: {
+      contractAddress: filters.contractAddress,
+      network: filters.network,
+      eventName: filters.eventName,
+    },
+    onData: () => setLiveEventCount(count => count + 1),
+  });
+
+  const events = data?.getEvents?.edges.map(edge => edge.node) || [];
+  const totalCount = data?.getEvents?.totalCount || 0;
+  const hasNextPage = data?.getEvents?.pageInfo.hasNextPage || false;
+  const endCursor = data?.getEvents?.pageInfo.endCursor;
+
+  // Refresh the first page once per interval while events arrive; once more are loaded they keep their position
+  const hasLiveEvents = liveEventCount > 0;
+  const showsFirstPageOnly = events.length <= pageSize;
+  useEffect(() => {
+    if (!hasLiveEvents || !showsFirstPageOnly) return;
+
+    const timeout = setTimeout(() => {
+      setLiveEventCount(0);
+      refetch();
+    }, LIVE_REFRESH_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [hasLiveEvents, showsFirstPageOnly, refetch]);
+
   // Refetch when refresh trigger changes
   useState(() => {
     if (refreshTrigger) {
@@ -69,20 +97,15 @@ export function ResultsDisplay({ filters, refreshTrigger }: ResultsDisplayProps)
     }
   });
 
-  const events = data?.getEvents?.events || [];
-  const totalCount = data?.getEvents?.totalCount || 0;
-  const hasNextPage = data?.getEvents?.hasNextPage || false;
-  const hasPreviousPage = data?.getEvents?.hasPreviousPage || false;
-  const totalPages = data?.getEvents?.totalPages || 1;
-
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
-    setExpandedEvent(null); // Close any expanded events
+  // Pages are appended by cursor, see the getEvents type policy
+  const handleLoadMore = () => {
+    if (!endCursor) return;
+    fetchMore({ variables: { after: endCursor } });
   };
 
   const handlePageSizeChange = (size: number) => {
     setPageSize(size);
-    setCurrentPage(1); // Reset to first page
+    setExpandedEvent(null); // Close any expanded events
   };
 
   const formatAddress = (address: string) => {
@@ -168,6 +191,7 @@ export function ResultsDisplay({ filters, refreshTrigger }: ResultsDisplayProps)
             <h2 className="text-2xl font-bold text-gray-900">Query Results</h2>
             <p className="text-gray-600 text-sm mt-1">
               {loading ? 'Loading...' : `${totalCount} events found`}
+              {hasLiveEvents && ` · ${liveEventCount} new since last refresh`}
             </p>
           </div>
           
@@ -345,11 +369,11 @@ export function ResultsDisplay({ filters, refreshTrigger }: ResultsDisplayProps)
         )}
 
         {/* Pagination */}
-        {totalPages > 1 && (
+        {events.length > 0 && (
           <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200">
             <div className="flex items-center space-x-4">
               <span className="text-sm text-gray-700">
-                Page {currentPage} of {totalPages} ({totalCount} total)
+                Showing {events.length} of {totalCount}
               </span>
               <select
                 value={pageSize}
@@ -363,22 +387,13 @@ export function ResultsDisplay({ filters, refreshTrigger }: ResultsDisplayProps)
               </select>
             </div>
             
-            <div className="flex space-x-2">
-              <button
-                onClick={() => handlePageChange(currentPage - 1)}
-                disabled={!hasPreviousPage}
-                className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Previous
-              </button>
-              <button
-                onClick={() => handlePageChange(currentPage + 1)}
-                disabled={!hasNextPage}
-                className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-              </button>
-            </div>
+            <button
+              onClick={handleLoadMore}
+              disabled={!hasNextPage || loading}
+              className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
           </div>
         )}
       </div>
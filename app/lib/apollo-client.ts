@@ -1,15 +1,8 @@
-import { ApolloClient, InMemoryCache, createHttpLink } from '@apollo/client';
+import { ApolloClient, ApolloLink, InMemoryCache, createHttpLink } from '@apollo/client';
 import { setContext } from '@apollo/client/link/context';
-
-// Type definitions for our GraphQL data
-interface Event {
-  id: string;
-  eventName: string;
-  contractAddress: string;
-  blockNumber: string;
-  transactionHash: string;
-  // Add other event fields as needed
-}
+import { relayStylePagination } from '@apollo/client/utilities';
+import { OperationTypeNode, print } from 'graphql';
+import { Observable } from 'rxjs';
 
 // Create HTTP link to our GraphQL endpoint
 const httpLink = createHttpLink({
@@ -18,6 +11,37 @@ const httpLink = createHttpLink({
     : 'http://localhost:3000/api/graphql',
 });
 
+// Subscriptions are served as server-sent events next to the GraphQL endpoint
+const streamUri = process.env.NODE_ENV === 'production'
+  ? `${process.env.NEXT_PUBLIC_GRAPHQL_URL || '/api/graphql'}/stream`
+  : 'http://localhost:3000/api/graphql/stream';
+
+const sseLink = new ApolloLink(operation => new Observable<ApolloLink.Result>(observer => {
+  const params = new URLSearchParams({
+    query: print(operation.query),
+    variables: JSON.stringify(operation.variables ?? {}),
+  });
+  if (operation.operationName) params.set('operationName', operation.operationName);
+
+  const source = new EventSource(`${streamUri}?${params}`);
+
+  source.addEventListener('next', (message: MessageEvent) => {
+    observer.next(JSON.parse(message.data));
+  });
+  source.addEventListener('complete', () => {
+    source.close();
+    observer.complete();
+  });
+  // EventSource reconnects on its own after dropped connections; a closed source won't
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      observer.error(new Error('Subscription stream closed'));
+    }
+  };
+
+  return () => source.close();
+}));
+
 // Auth link (for future authentication if needed)
 const authLink = setContext((_, { headers }) => {
   // Get authentication token from localStorage if available
@@ -34,56 +58,19 @@ const authLink = setContext((_, { headers }) => {
 
 // Create Apollo Client instance
 export const apolloClient = new ApolloClient({
-  link: authLink.concat(httpLink),
+  link: ApolloLink.split(
+    operation => operation.operationType === OperationTypeNode.SUBSCRIPTION,
+    sseLink,
+    authLink.concat(httpLink)
+  ),
   cache: new InMemoryCache({
     typePolicies: {
       Query: {
         fields: {
-          getEvents: {
-            // Cache policy for events - merge existing with new data
-            keyArgs: ['filters'], // Cache based on filters
-            merge(existing, incoming) {
-              if (!existing) return incoming;
-              
-              // Merge events arrays, avoiding duplicates
-              const existingEvents = existing.events || [];
-              const incomingEvents = incoming.events || [];
-              const allEvents = [...existingEvents];
-              
-              // Add new events that don't already exist
-              incomingEvents.forEach((newEvent: Event) => {
-                if (!allEvents.find((e: Event) => e.id === newEvent.id)) {
-                  allEvents.push(newEvent);
-                }
-              });
-              
-              return {
-                ...incoming,
-                events: allEvents,
-              };
-            },
-          },
-          getEventsByContract: {
-            keyArgs: ['contractAddress', 'network', 'eventName'],
-            merge(existing, incoming) {
-              if (!existing) return incoming;
-              
-              const existingEvents = existing.events || [];
-              const incomingEvents = incoming.events || [];
-              const allEvents = [...existingEvents];
-              
-              incomingEvents.forEach((newEvent: Event) => {
-                if (!allEvents.find((e: Event) => e.id === newEvent.id)) {
-                  allEvents.push(newEvent);
-                }
-              });
-              
-              return {
-                ...incoming,
-                events: allEvents,
-              };
-            },
-          },
+          // Event connections merge pages by cursor per filter and order; a request without after/before starts over
+          getEvents: relayStylePagination(['filters', 'orderBy']),
+          getEventsByContract: relayStylePagination(['contractAddress', 'network', 'eventName', 'orderBy']),
+          getEventsSmartRange: relayStylePagination(['contractAddress', 'network', 'eventName', 'orderBy']),
         },
       },
     },
@@ -1,7 +1,21 @@
 import { gql } from 'graphql-tag';
 import { DatabaseService } from './database';
-import { prisma } from './database';
-import type { Event } from '../generated/prisma';
+import { normalizeAddress } from './database';
+import { EventDecoder } from './decoder';
+import { ArgFilterService, ArgFilter } from './arg-filters';
+import { PaginationService, ConnectionArgs, PageInfo, EventOrderBy } from './pagination';
+import { JobService } from './jobs';
+import { GapService } from './gaps';
+import { FactoryService } from './factory';
+import { EVENT_STATUSES, EventStatus } from './finality';
+import { ChainService, ChainInput } from './chains';
+import { maskUrl } from './rpc-pool';
+import { BlockchainService } from './blockchain';
+import { SubscriptionService, EVENT_ADDED, INDEXING_STATUS_CHANGED } from './subscriptions';
+import { WebhookService, WebhookInput, WebhookDeliveryStatus, WEBHOOK_DELIVERY_STATUSES } from './webhooks';
+import { ContractService, ContractManagementError, StartIndexingInput } from './contracts';
+import type { ABIItem } from './indexer';
+import type { Chain, Contract, Event, IndexingStatus } from '../generated/prisma';
 
 // GraphQL Type Definitions
 export const typeDefs = gql`
@@ -11,21 +25,38 @@ export const typeDefs = gql`
     name: String
     network: String!
     abi: [ABIItem!]!
+    # Empty tracks every event in the ABI
+    trackedEvents: [String!]!
+    # Paused contracts are not followed by the worker
+    isActive: Boolean!
+    lastIndexedBlock: String
+    # Factory event and argument that announce child contracts
+    factoryEvent: String
+    factoryChildArg: String
+    # Factory that registered this contract, and the block it was created at
+    parent: Contract
+    creationBlock: String
+    children: [Contract!]!
     createdAt: String!
     updatedAt: String!
-    events: [Event!]!
+    # The 100 newest events unless orderBy is given
+    events(orderBy: [EventOrderByInput!]): [Event!]!
   }
 
   type ABIItem {
     type: String!
     name: String
     inputs: [ABIInput!]
+    anonymous: Boolean
   }
 
+  # Solidity JSON ABI parameter; tuples carry their members in components
   type ABIInput {
     type: String!
-    name: String!
+    name: String
+    internalType: String
     indexed: Boolean
+    components: [ABIInput!]
   }
 
   type Event {
@@ -39,47 +70,374 @@ export const typeDefs = gql`
     contractId: String!
     contractAddress: String!
     eventName: String!
+    # Empty for anonymous events, which have no signature topic
     eventSignature: String!
+    # Emitted by an anonymous event and matched through a topic filter
+    anonymous: Boolean!
     indexedParams: [String!]!
     data: String!
+    decodedArgs: [DecodedArg!]
     rawLog: String!
     network: String!
+    # pending, confirmed or finalized
+    status: String!
+    # Set on eventAdded payloads for events a chain reorganization removed
+    removed: Boolean
     createdAt: String!
     contract: Contract!
   }
 
+  type DecodedArg {
+    name: String!
+    type: String!
+    indexed: Boolean!
+    hashed: Boolean!
+    value: String!
+  }
+
   type IndexingStatus {
     id: String!
     contractAddress: String!
     network: String!
     lastIndexedBlock: String!
+    lastIndexedAt: String!
+    isActive: Boolean!
+    # Number of open gaps and the error of the most recent one
+    errorCount: Int!
+    lastError: String
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type IndexingGap {
+    id: String!
+    contractAddress: String!
+    network: String!
+    eventNames: [String!]!
+    fromBlock: String!
+    toBlock: String!
+    status: String!
+    error: String!
+    attempts: Int!
+    nextRetryAt: String
+    resolvedAt: String
+    createdAt: String!
+  }
+
+  type Chain {
+    id: String!
+    chainId: Int!
+    name: String!
+    rpcUrl: String!
+    rpcUrls: [String!]!
+    blockTime: Int
+    # Blocks behind the head before an event is confirmed
+    confirmations: Int!
+    # Depth treated as final when the node doesn't support the finalized block tag
+    finalityDepth: Int!
+    isActive: Boolean!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type RpcProviderHealth {
+    url: String!
+    healthy: Boolean!
+    score: Int!
+    latencyMs: Int
+    errorRate: Float!
+    totalRequests: Int!
+    totalErrors: Int!
+    consecutiveFailures: Int!
+    cooldownUntil: String
+    lastError: String
+    lastErrorAt: String
+  }
+
+  type NetworkRpcHealth {
+    network: String!
+    providers: [RpcProviderHealth!]!
+  }
+
+  # Solidity JSON ABI entry; functions, errors and constructors are accepted and ignored
+  input ABIItemInput {
+    type: String!
+    name: String
+    inputs: [ABIParameterInput!]
+    outputs: [ABIParameterInput!]
+    stateMutability: String
+    anonymous: Boolean
+  }
+
+  input ABIParameterInput {
+    type: String!
+    name: String
+    internalType: String
+    indexed: Boolean
+    components: [ABIParameterInput!]
+  }
+
+  # The ABI is given as entries (abi) or as a JSON string (abiJson)
+  input RegisterContractInput {
+    address: String!
+    network: String!
+    abi: [ABIItemInput!]
+    abiJson: String
+    name: String
+    # Defaults to every event in the ABI
+    eventsToTrack: [String!]
+  }
+
+  input UpdateContractAbiInput {
+    address: String!
+    network: String!
+    abi: [ABIItemInput!]
+    abiJson: String
+    # Keeps the current tracked events when omitted
+    eventsToTrack: [String!]
+  }
+
+  input StartIndexingInput {
+    address: String!
+    network: String!
+    # A block number, "earliest" (default, the creation block) or "resume" after the checkpoint
+    fromBlock: String
+    # A block number or "latest" (default)
+    toBlock: String
+    # ISO 8601 dates instead of fromBlock/toBlock, resolved to the blocks produced in that range
+    fromDate: String
+    toDate: String
+  }
+
+  input ReindexRangeInput {
+    address: String!
+    network: String!
+    fromBlock: String!
+    toBlock: String!
+  }
+
+  # A rejected mutation: VALIDATION_ERROR, NOT_FOUND, CONFLICT or INTERNAL_ERROR
+  type MutationError {
+    code: String!
+    # Input field the error refers to
+    field: String
+    message: String!
+  }
+
+  type ContractResult {
+    contract: Contract
+    errors: [MutationError!]!
+  }
+
+  type IndexingJobResult {
+    # Null when nothing needed indexing, with the reason in message
+    job: IndexingJob
+    message: String
+    errors: [MutationError!]!
+  }
+
+  type DeleteContractResult {
+    deleted: Boolean!
+    deletedEvents: Int!
+    errors: [MutationError!]!
+  }
+
+  type WebhookArgFilter {
+    name: String!
+    value: String!
+  }
+
+  # Decoded argument value an event must have. Hex values such as addresses compare
+  # case-insensitively, anything else exactly.
+  input WebhookArgFilterInput {
+    name: String!
+    value: String!
+  }
+
+  type Webhook {
+    id: String!
+    url: String!
+    # Null or empty filters match everything
+    contractAddress: String
+    network: String
+    eventNames: [String!]!
+    argFilters: [WebhookArgFilter!]!
     isActive: Boolean!
     createdAt: String!
     updatedAt: String!
+    # Delivery log, newest first
+    deliveries(status: String, limit: Int): [WebhookDelivery!]!
+  }
+
+  type WebhookDelivery {
+    id: String!
+    webhookId: String!
+    eventId: String!
+    # event.added, or event.removed for an already sent event a reorg removed
+    type: String!
+    # JSON body POSTed to the webhook URL
+    payload: String!
+    # pending, delivered or dead once its retries are exhausted
+    status: String!
+    attempts: Int!
+    nextAttemptAt: String
+    responseStatus: Int
+    lastError: String
+    deliveredAt: String
+    createdAt: String!
+  }
+
+  # The secret is only returned when the webhook is created
+  type CreatedWebhook {
+    webhook: Webhook!
+    secret: String!
+  }
+
+  input WebhookInput {
+    url: String!
+    # At least 16 characters; generated when omitted
+    secret: String
+    contractAddress: String
+    network: String
+    eventNames: [String!]
+    argFilters: [WebhookArgFilterInput!]
+    isActive: Boolean
+  }
+
+  input UpdateWebhookInput {
+    url: String
+    secret: String
+    contractAddress: String
+    network: String
+    eventNames: [String!]
+    argFilters: [WebhookArgFilterInput!]
+    isActive: Boolean
+  }
+
+  input ChainInput {
+    chainId: Int!
+    name: String!
+    rpcUrl: String!
+    rpcUrls: [String!]
+    blockTime: Int
+    confirmations: Int
+    finalityDepth: Int
+    isActive: Boolean
+  }
+
+  input UpdateChainInput {
+    chainId: Int
+    rpcUrl: String
+    rpcUrls: [String!]
+    blockTime: Int
+    confirmations: Int
+    finalityDepth: Int
+    isActive: Boolean
+  }
+
+  type IndexingJobChunk {
+    id: String!
+    fromBlock: String!
+    toBlock: String!
+    status: String!
+    eventsFound: Int!
+    attempts: Int!
+    error: String
+    startedAt: String
+    completedAt: String
+  }
+
+  type IndexingJob {
+    id: String!
+    contractAddress: String!
+    addresses: [String!]!
+    network: String!
+    eventsToTrack: [String!]!
+    status: String!
+    fromBlock: String!
+    toBlock: String!
+    totalBlocks: String!
+    blocksProcessed: String!
+    percentComplete: Float!
+    eventsFound: Int!
+    failedChunks: Int!
+    error: String
+    chunks: [IndexingJobChunk!]!
+    # Open gaps inside the job's block range
+    gaps: [IndexingGap!]!
+    createdAt: String!
+    startedAt: String
+    completedAt: String
   }
 
   input EventFilters {
     contractAddress: String
     eventName: String
+    # Any of these event names
+    eventNames: [String!]
     network: String
     fromBlock: String
     toBlock: String
+    # Block time range as ISO 8601 dates; events whose block time isn't resolved yet are excluded
     fromDate: String
     toDate: String
+    # When the indexer stored the events
+    indexedAt: DateRangeInput
+    # true for anonymous events only, false to exclude them
+    anonymous: Boolean
+    # pending, confirmed or finalized
+    status: String
+    # Conditions on decoded argument values, all of which must match
+    args: [ArgFilterInput!]
   }
 
-  input PaginationInput {
-    page: Int = 1
-    limit: Int = 50
+  input DateRangeInput {
+    from: String
+    to: String
   }
 
-  type EventsResponse {
-    events: [Event!]!
-    totalCount: Int!
+  # Filter on a named event parameter. Values are compared as decoded: addresses
+  # case-insensitively, integers as decimal strings.
+  input ArgFilterInput {
+    name: String!
+    eq: String
+    in: [String!]
+    # Numeric bounds, e.g. "1000000000000000000" or "1e18"
+    gt: String
+    lt: String
+    # Substring of a string argument, or an element of an array argument
+    contains: String
+  }
+
+  # Sort by "blockNumber", "logIndex", "timestamp" (block time), "eventName" or "arg", the
+  # numeric value of the decoded argument named in arg. Ties are broken by block number,
+  # log index and id, so the order is deterministic.
+  input EventOrderByInput {
+    field: String!
+    # "asc" or "desc" (default)
+    direction: String
+    arg: String
+  }
+
+  type PageInfo {
     hasNextPage: Boolean!
     hasPreviousPage: Boolean!
-    currentPage: Int!
-    totalPages: Int!
+    startCursor: String
+    endCursor: String
+  }
+
+  type EventEdge {
+    # Opaque position in the query's order; pass it as after or before with the same orderBy
+    cursor: String!
+    node: Event!
+  }
+
+  # Newest events first unless orderBy is given. Page forward with first/after and backward with last/before.
+  type EventConnection {
+    edges: [EventEdge!]!
+    pageInfo: PageInfo!
+    # Counted only when selected
+    totalCount: Int
   }
 
   type SmartRangeInfo {
@@ -91,14 +449,11 @@ export const typeDefs = gql`
     message: String!
   }
 
-  type SmartEventsResponse {
-    events: [Event!]!
+  type SmartEventConnection {
+    edges: [EventEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int
     rangeInfo: SmartRangeInfo!
-    totalCount: Int!
-    hasNextPage: Boolean!
-    hasPreviousPage: Boolean!
-    currentPage: Int!
-    totalPages: Int!
   }
 
   type Query {
@@ -109,15 +464,19 @@ export const typeDefs = gql`
     getContract(address: String!, network: String!): Contract
     
     # Get events with filtering and pagination
-    getEvents(filters: EventFilters, pagination: PaginationInput): EventsResponse!
+    getEvents(filters: EventFilters, orderBy: [EventOrderByInput!], first: Int, after: String, last: Int, before: String): EventConnection!
     
     # Get events for a specific contract
     getEventsByContract(
       contractAddress: String!
       network: String!
       eventName: String
-      pagination: PaginationInput
-    ): EventsResponse!
+      orderBy: [EventOrderByInput!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): EventConnection!
     
     # Get indexing status for contracts
     getIndexingStatus(contractAddress: String, network: String): [IndexingStatus!]!
@@ -125,16 +484,147 @@ export const typeDefs = gql`
     # Get available event types for a contract (or all if no contract specified)
     getEventTypes(contractAddress: String, network: String): [String!]!
     
+    # Get supported networks from the Chain table
+    chains(includeInactive: Boolean): [Chain!]!
+
+    # Latency and error rate of each RPC provider in this server process
+    rpcHealth(network: String, probe: Boolean): [NetworkRpcHealth!]!
+
+    # First block at or "after" (default) an ISO 8601 timestamp, or the last one at or "before" it
+    blockNumberByTimestamp(network: String!, timestamp: String!, direction: String): String
+
+    # Get an indexing job with progress and per-chunk results
+    indexingJob(id: String!): IndexingJob
+
+    # Block ranges that failed to index for a contract; open ones unless includeResolved
+    indexingGaps(contractAddress: String!, network: String!, includeResolved: Boolean): [IndexingGap!]!
+
+    # Registered webhooks
+    webhooks: [Webhook!]!
+    webhook(id: String!): Webhook
+
+    # Delivery log of a webhook, optionally only pending, delivered or dead deliveries
+    webhookDeliveries(webhookId: String!, status: String, limit: Int): [WebhookDelivery!]!
+
+    # Deliveries that exhausted their retries, for one webhook or all of them
+    webhookDeadLetters(webhookId: String, limit: Int): [WebhookDelivery!]!
+
     # Smart range detection - automatically finds optimal block range
     getEventsSmartRange(
       contractAddress: String!
       network: String!
       eventName: String
-      pagination: PaginationInput
-    ): SmartEventsResponse!
+      orderBy: [EventOrderByInput!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): SmartEventConnection!
+  }
+
+  type Mutation {
+    # Register a new network (e.g. arbitrum, base, optimism, polygon, anvil)
+    registerChain(input: ChainInput!): Chain!
+
+    # Update RPC URL, block time or activation of a registered network
+    updateChain(name: String!, input: UpdateChainInput!): Chain!
+
+    # Register a contract with its ABI and tracked events, without indexing it yet
+    registerContract(input: RegisterContractInput!): ContractResult!
+
+    # Replace a contract's ABI and optionally its tracked events
+    updateContractAbi(input: UpdateContractAbiInput!): ContractResult!
+
+    # Queue an indexing job for a registered contract
+    startIndexing(input: StartIndexingInput!): IndexingJobResult!
+
+    # Stop or restart following the chain head for a contract
+    pauseContract(address: String!, network: String!): ContractResult!
+    resumeContract(address: String!, network: String!): ContractResult!
+
+    # Drop the stored events of a block range and index it again
+    reindexRange(input: ReindexRangeInput!): IndexingJobResult!
+
+    # Delete a contract with its events, indexing status, checkpoints, gaps and jobs
+    deleteContract(address: String!, network: String!): DeleteContractResult!
+
+    # Push matching events to a URL as HMAC-signed POST requests
+    createWebhook(input: WebhookInput!): CreatedWebhook!
+
+    # Change a webhook's URL, secret, filters or activation; null clears the contract or network filter
+    updateWebhook(id: String!, input: UpdateWebhookInput!): Webhook!
+
+    deleteWebhook(id: String!): Boolean!
+
+    # Queue a delivery again with fresh retries, e.g. from the dead-letter list
+    redeliverWebhookDelivery(id: String!): WebhookDelivery!
+  }
+
+  # Served as server-sent events from /api/graphql/stream
+  type Subscription {
+    # Events as they are stored, optionally for one contract, network or event name.
+    # Events a reorg removes are sent again with removed: true.
+    eventAdded(contractAddress: String, network: String, eventName: String): Event!
+
+    # Indexing status updates: new checkpoints, gap counts and activation changes
+    indexingStatusChanged(contractAddress: String, network: String): IndexingStatus!
   }
 `;
 
+// Dates become ISO strings and the RPC URL is masked since it may embed an API key
+const formatChain = (chain: Chain) => ({
+  ...chain,
+  rpcUrl: maskUrl(chain.rpcUrl),
+  rpcUrls: chain.rpcUrls.map(maskUrl),
+  createdAt: chain.createdAt.toISOString(),
+  updatedAt: chain.updatedAt.toISOString(),
+});
+
+const formatEvent = (event: Event) => ({
+  ...event,
+  blockNumber: event.blockNumber.toString(),
+  rawLog: JSON.stringify(event.rawLog),
+  createdAt: event.createdAt.toISOString(),
+});
+
+// A page of events as a Relay connection; the total is counted only if totalCount is selected
+const eventConnection = (page: { edges: { cursor: string; node: Event }[]; pageInfo: PageInfo; countTotal: () => Promise<number> }) => ({
+  edges: page.edges.map(edge => ({ cursor: edge.cursor, node: formatEvent(edge.node) })),
+  pageInfo: page.pageInfo,
+  totalCount: async () => {
+    try {
+      return await page.countTotal();
+    } catch (error) {
+      console.error('Error counting events:', error);
+      throw new Error('Failed to count events');
+    }
+  },
+});
+
+const formatContract = (contract: Contract) => ({
+  ...contract,
+  createdAt: contract.createdAt.toISOString(),
+  updatedAt: contract.updatedAt.toISOString(),
+});
+
+// Contract mutations report rejected requests as typed errors rather than GraphQL errors
+const mutationErrors = (error: unknown, action: string) => {
+  if (error instanceof ContractManagementError) {
+    return [{ code: error.code, field: error.field ?? null, message: error.message }];
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return [{ code: 'INTERNAL_ERROR', field: null, message: `Failed to ${action}` }];
+};
+
+type AbiMutationInput = {
+  address: string;
+  network: string;
+  abi?: ABIItem[] | null;
+  abiJson?: string | null;
+  eventsToTrack?: string[] | null;
+};
+
 // GraphQL Resolvers
 export const resolvers = {
   Query: {
@@ -177,41 +667,37 @@ export const resolvers = {
       filters?: {
         contractAddress?: string;
         eventName?: string;
+        eventNames?: string[];
         network?: string;
         fromBlock?: string;
         toBlock?: string;
         fromDate?: string;
         toDate?: string;
+        indexedAt?: { from?: string; to?: string };
+        anonymous?: boolean;
+        status?: string;
+        args?: ArgFilter[];
       };
-      pagination?: { page?: number; limit?: number };
-    }) => {
-      try {
-        const page = args.pagination?.page || 1;
-        const limit = args.pagination?.limit || 50;
-        const offset = (page - 1) * limit;
+      orderBy?: EventOrderBy[];
+    } & ConnectionArgs) => {
+      if (args.filters?.status && !EVENT_STATUSES.includes(args.filters.status as EventStatus)) {
+        throw new Error(`Invalid status "${args.filters.status}". Use one of: ${EVENT_STATUSES.join(', ')}`);
+      }
+      const dates = [args.filters?.fromDate, args.filters?.toDate, args.filters?.indexedAt?.from, args.filters?.indexedAt?.to];
+      const invalidDate = dates.find(date => date && Number.isNaN(new Date(date).getTime()));
+      if (invalidDate) {
+        throw new Error(`Invalid date "${invalidDate}". Use an ISO 8601 date.`);
+      }
+      ArgFilterService.validate(args.filters?.args ?? []);
+      const page = PaginationService.parse(args, PaginationService.parseOrder(args.orderBy ?? []));
 
+      try {
         const result = await DatabaseService.getEventsWithPagination({
           filters: args.filters || {},
-          limit,
-          offset,
+          page,
         });
 
-        const totalPages = Math.ceil(result.totalCount / limit);
-
-        return {
-          events: result.events.map(event => ({
-            ...event,
-            id: event.id,
-            blockNumber: event.blockNumber.toString(),
-            rawLog: JSON.stringify(event.rawLog),
-            createdAt: event.createdAt.toISOString(),
-          })),
-          totalCount: result.totalCount,
-          hasNextPage: page < totalPages,
-          hasPreviousPage: page > 1,
-          currentPage: page,
-          totalPages,
-        };
+        return eventConnection(result);
       } catch (error) {
         console.error('Error fetching events:', error);
         throw new Error('Failed to fetch events');
@@ -223,39 +709,21 @@ export const resolvers = {
       contractAddress: string;
       network: string;
       eventName?: string;
-      pagination?: { page?: number; limit?: number };
-    }) => {
-      try {
-        const page = args.pagination?.page || 1;
-        const limit = args.pagination?.limit || 50;
-        const offset = (page - 1) * limit;
+      orderBy?: EventOrderBy[];
+    } & ConnectionArgs) => {
+      const page = PaginationService.parse(args, PaginationService.parseOrder(args.orderBy ?? []));
 
+      try {
         const result = await DatabaseService.getEventsByContract(
-          args.contractAddress.toLowerCase(), // Ensure lowercase for matching
+          args.contractAddress,
           {
             eventName: args.eventName,
             network: args.network,
-            limit,
-            offset,
+            page,
           }
         );
 
-        const totalPages = Math.ceil(result.totalCount / limit);
-
-        return {
-          events: result.events.map(event => ({
-            ...event,
-            id: event.id,
-            blockNumber: event.blockNumber.toString(),
-            rawLog: JSON.stringify(event.rawLog),
-            createdAt: event.createdAt.toISOString(),
-          })),
-          totalCount: result.totalCount,
-          hasNextPage: page < totalPages,
-          hasPreviousPage: page > 1,
-          currentPage: page,
-          totalPages,
-        };
+        return eventConnection(result);
       } catch (error) {
         console.error('Error fetching events by contract:', error);
         throw new Error('Failed to fetch events by contract');
@@ -277,6 +745,7 @@ export const resolvers = {
           ...status,
           id: status.id,
           lastIndexedBlock: status.lastIndexedBlock.toString(),
+          lastIndexedAt: status.lastIndexedAt.toISOString(),
           createdAt: status.createdAt.toISOString(),
           updatedAt: status.updatedAt.toISOString(),
         }));
@@ -303,42 +772,146 @@ export const resolvers = {
       }
     },
 
+    // Get supported networks
+    chains: async (_: unknown, args: { includeInactive?: boolean }) => {
+      try {
+        const chains = await ChainService.getChains(args.includeInactive ?? false);
+        return chains.map(formatChain);
+      } catch (error) {
+        console.error('Error fetching chains:', error);
+        throw new Error('Failed to fetch chains');
+      }
+    },
+
+    // Get RPC provider health per network
+    rpcHealth: async (_: unknown, args: { network?: string; probe?: boolean }) => {
+      try {
+        return await BlockchainService.getRpcHealth(args.network, args.probe ?? false);
+      } catch (error) {
+        console.error('Error fetching RPC health:', error);
+        throw new Error('Failed to fetch RPC health');
+      }
+    },
+
+    // Resolve a timestamp to a block, e.g. to turn a date range into a block range
+    blockNumberByTimestamp: async (_: unknown, args: { network: string; timestamp: string; direction?: string }) => {
+      const direction = args.direction ?? 'after';
+      if (direction !== 'after' && direction !== 'before') {
+        throw new Error(`Invalid direction "${direction}". Use after or before`);
+      }
+
+      const timestamp = new Date(args.timestamp);
+      if (Number.isNaN(timestamp.getTime())) {
+        throw new Error(`Invalid timestamp "${args.timestamp}". Use an ISO 8601 date.`);
+      }
+
+      try {
+        const blockNumber = await BlockchainService.getBlockNumberByTimestamp(args.network, timestamp, direction);
+        return blockNumber?.toString() ?? null;
+      } catch (error) {
+        console.error('Error resolving block by timestamp:', error);
+        throw new Error('Failed to resolve block by timestamp');
+      }
+    },
+
+    // Get an indexing job with progress
+    indexingJob: async (_: unknown, args: { id: string }) => {
+      try {
+        const job = await JobService.getJob(args.id);
+        return job ? JobService.formatJob(job) : null;
+      } catch (error) {
+        console.error('Error fetching indexing job:', error);
+        throw new Error('Failed to fetch indexing job');
+      }
+    },
+
+    // Get failed block ranges for a contract
+    indexingGaps: async (_: unknown, args: {
+      contractAddress: string;
+      network: string;
+      includeResolved?: boolean;
+    }) => {
+      try {
+        const gaps = await GapService.getGaps(args.contractAddress, args.network, args.includeResolved ?? false);
+        return gaps.map(GapService.formatGap);
+      } catch (error) {
+        console.error('Error fetching indexing gaps:', error);
+        throw new Error('Failed to fetch indexing gaps');
+      }
+    },
+
+    // Get registered webhooks
+    webhooks: async () => {
+      try {
+        const webhooks = await WebhookService.getWebhooks();
+        return webhooks.map(WebhookService.formatWebhook);
+      } catch (error) {
+        console.error('Error fetching webhooks:', error);
+        throw new Error('Failed to fetch webhooks');
+      }
+    },
+
+    webhook: async (_: unknown, args: { id: string }) => {
+      try {
+        const webhook = await WebhookService.getWebhook(args.id);
+        return webhook ? WebhookService.formatWebhook(webhook) : null;
+      } catch (error) {
+        console.error('Error fetching webhook:', error);
+        throw new Error('Failed to fetch webhook');
+      }
+    },
+
+    // Get the delivery log of a webhook
+    webhookDeliveries: async (_: unknown, args: { webhookId: string; status?: string; limit?: number }) => {
+      if (args.status && !WEBHOOK_DELIVERY_STATUSES.includes(args.status as WebhookDeliveryStatus)) {
+        throw new Error(`Invalid status "${args.status}". Use one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`);
+      }
+
+      try {
+        const deliveries = await WebhookService.getDeliveries(args.webhookId, {
+          status: args.status as WebhookDeliveryStatus | undefined,
+          limit: args.limit ?? undefined,
+        });
+        return deliveries.map(WebhookService.formatDelivery);
+      } catch (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+    },
+
+    // Get dead-lettered webhook deliveries
+    webhookDeadLetters: async (_: unknown, args: { webhookId?: string; limit?: number }) => {
+      try {
+        const deliveries = await WebhookService.getDeadLetters(args.webhookId ?? undefined, args.limit ?? undefined);
+        return deliveries.map(WebhookService.formatDelivery);
+      } catch (error) {
+        console.error('Error fetching webhook dead letters:', error);
+        throw new Error('Failed to fetch webhook dead letters');
+      }
+    },
+
     // Smart range detection - automatically finds optimal block range
     getEventsSmartRange: async (_: unknown, args: {
       contractAddress: string;
       network: string;
       eventName?: string;
-      pagination?: { page?: number; limit?: number };
-    }) => {
-      try {
-        const page = args.pagination?.page || 1;
-        const limit = args.pagination?.limit || 50;
-        const offset = (page - 1) * limit;
+      orderBy?: EventOrderBy[];
+    } & ConnectionArgs) => {
+      const page = PaginationService.parse(args, PaginationService.parseOrder(args.orderBy ?? []));
 
+      try {
         const result = await DatabaseService.getEventsSmartRange({
           contractAddress: args.contractAddress,
           network: args.network,
           eventName: args.eventName,
-          limit,
-          offset,
+          page,
         });
 
-        const totalPages = Math.ceil(result.totalCount / limit);
-
         return {
-          events: result.events.map(event => ({
-            ...event,
-            id: event.id,
-            blockNumber: event.blockNumber.toString(),
-            rawLog: JSON.stringify(event.rawLog),
-            createdAt: event.createdAt.toISOString(),
-          })),
-          rangeInfo: result.rangeInfo,
+          edges: result.edges.map(edge => ({ cursor: edge.cursor, node: formatEvent(edge.node) })),
+          pageInfo: result.pageInfo,
           totalCount: result.totalCount,
-          hasNextPage: page < totalPages,
-          hasPreviousPage: page > 1,
-          currentPage: page,
-          totalPages,
+          rangeInfo: result.rangeInfo,
         };
       } catch (error) {
         console.error('Error fetching events with smart range:', error);
@@ -347,36 +920,295 @@ export const resolvers = {
     },
   },
 
+  Mutation: {
+    // Register a new network
+    registerChain: async (_: unknown, args: { input: ChainInput }) => {
+      try {
+        const chain = await ChainService.registerChain(args.input);
+        return formatChain(chain);
+      } catch (error) {
+        console.error('Error registering chain:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to register chain');
+      }
+    },
+
+    // Update a registered network
+    updateChain: async (_: unknown, args: { name: string; input: Partial<Omit<ChainInput, 'name'>> }) => {
+      try {
+        const chain = await ChainService.updateChain(args.name, args.input);
+        return formatChain(chain);
+      } catch (error) {
+        console.error('Error updating chain:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to update chain');
+      }
+    },
+
+    // Register a contract without indexing it
+    registerContract: async (_: unknown, args: { input: AbiMutationInput & { name?: string | null } }) => {
+      try {
+        const contract = await ContractService.registerContract({
+          address: args.input.address,
+          network: args.input.network,
+          abi: ContractService.parseAbiInput(args.input.abi, args.input.abiJson),
+          name: args.input.name ?? undefined,
+          eventsToTrack: args.input.eventsToTrack ?? undefined,
+        });
+        return { contract: formatContract(contract), errors: [] };
+      } catch (error) {
+        return { contract: null, errors: mutationErrors(error, 'register contract') };
+      }
+    },
+
+    // Replace a contract's ABI
+    updateContractAbi: async (_: unknown, args: { input: AbiMutationInput }) => {
+      try {
+        const contract = await ContractService.updateContractAbi(
+          args.input.address,
+          args.input.network,
+          ContractService.parseAbiInput(args.input.abi, args.input.abiJson),
+          args.input.eventsToTrack ?? undefined
+        );
+        return { contract: formatContract(contract), errors: [] };
+      } catch (error) {
+        return { contract: null, errors: mutationErrors(error, 'update contract ABI') };
+      }
+    },
+
+    // Queue an indexing job for a registered contract
+    startIndexing: async (_: unknown, args: { input: StartIndexingInput }) => {
+      try {
+        const { job, message } = await ContractService.startIndexing({
+          ...args.input,
+          fromBlock: args.input.fromBlock ?? undefined,
+          toBlock: args.input.toBlock ?? undefined,
+        });
+        return { job: job && JobService.formatJob(job), message, errors: [] };
+      } catch (error) {
+        return { job: null, message: null, errors: mutationErrors(error, 'start indexing') };
+      }
+    },
+
+    // Pause a contract
+    pauseContract: async (_: unknown, args: { address: string; network: string }) => {
+      try {
+        const contract = await ContractService.pauseContract(args.address, args.network);
+        return { contract: formatContract(contract), errors: [] };
+      } catch (error) {
+        return { contract: null, errors: mutationErrors(error, 'pause contract') };
+      }
+    },
+
+    // Resume a paused contract
+    resumeContract: async (_: unknown, args: { address: string; network: string }) => {
+      try {
+        const contract = await ContractService.resumeContract(args.address, args.network);
+        return { contract: formatContract(contract), errors: [] };
+      } catch (error) {
+        return { contract: null, errors: mutationErrors(error, 'resume contract') };
+      }
+    },
+
+    // Index a block range again
+    reindexRange: async (_: unknown, args: { input: { address: string; network: string; fromBlock: string; toBlock: string } }) => {
+      try {
+        const { job, message } = await ContractService.reindexRange(
+          args.input.address,
+          args.input.network,
+          args.input.fromBlock,
+          args.input.toBlock
+        );
+        return { job: JobService.formatJob(job), message, errors: [] };
+      } catch (error) {
+        return { job: null, message: null, errors: mutationErrors(error, 'reindex range') };
+      }
+    },
+
+    // Delete a contract and its indexed data
+    deleteContract: async (_: unknown, args: { address: string; network: string }) => {
+      try {
+        const result = await ContractService.deleteContract(args.address, args.network);
+        return { ...result, errors: [] };
+      } catch (error) {
+        return { deleted: false, deletedEvents: 0, errors: mutationErrors(error, 'delete contract') };
+      }
+    },
+
+    // Register a webhook
+    createWebhook: async (_: unknown, args: { input: WebhookInput }) => {
+      try {
+        const { webhook, secret } = await WebhookService.createWebhook(args.input);
+        return { webhook: WebhookService.formatWebhook(webhook), secret };
+      } catch (error) {
+        console.error('Error creating webhook:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to create webhook');
+      }
+    },
+
+    // Update a webhook
+    updateWebhook: async (_: unknown, args: { id: string; input: Partial<WebhookInput> }) => {
+      try {
+        const webhook = await WebhookService.updateWebhook(args.id, args.input);
+        return WebhookService.formatWebhook(webhook);
+      } catch (error) {
+        console.error('Error updating webhook:', error);
+        throw new Error(error instanceof Error ? error.message : 'Failed to update webhook');
+      }
+    },
+
+    // Delete a webhook and its delivery log
+    deleteWebhook: async (_: unknown, args: { id: string }) => {
+      try {
+        return await WebhookService.deleteWebhook(args.id);
+      } catch (error) {
+        console.error('Error deleting webhook:', error);
+        throw new Error('Failed to delete webhook');
+      }
+    },
+
+    // Retry a delivery from scratch
+    redeliverWebhookDelivery: async (_: unknown, args: { id: string }) => {
+      try {
+        const delivery = await WebhookService.redeliver(args.id);
+        return WebhookService.formatDelivery(delivery);
+      } catch (error) {
+        console.error('Error redelivering webhook delivery:', error);
+        throw new Error('Failed to redeliver webhook delivery');
+      }
+    },
+  },
+
+  Subscription: {
+    eventAdded: {
+      subscribe: (_: unknown, args: { contractAddress?: string; network?: string; eventName?: string }) => {
+        const contractAddress = args.contractAddress && normalizeAddress(args.contractAddress);
+
+        return SubscriptionService.subscribe(EVENT_ADDED, event =>
+          (!contractAddress || event.contractAddress === contractAddress) &&
+          (!args.network || event.network === args.network) &&
+          (!args.eventName || event.eventName === args.eventName)
+        );
+      },
+      resolve: (event: Event & { removed?: boolean }) => ({
+        ...event,
+        blockNumber: event.blockNumber.toString(),
+        rawLog: JSON.stringify(event.rawLog),
+        removed: event.removed ?? false,
+        createdAt: event.createdAt.toISOString(),
+      }),
+    },
+
+    indexingStatusChanged: {
+      subscribe: (_: unknown, args: { contractAddress?: string; network?: string }) => {
+        const contractAddress = args.contractAddress && normalizeAddress(args.contractAddress);
+
+        return SubscriptionService.subscribe(INDEXING_STATUS_CHANGED, status =>
+          (!contractAddress || status.contractAddress === contractAddress) &&
+          (!args.network || status.network === args.network)
+        );
+      },
+      resolve: (status: IndexingStatus) => ({
+        ...status,
+        lastIndexedBlock: status.lastIndexedBlock.toString(),
+        lastIndexedAt: status.lastIndexedAt.toISOString(),
+        createdAt: status.createdAt.toISOString(),
+        updatedAt: status.updatedAt.toISOString(),
+      }),
+    },
+  },
+
   // Nested resolvers for relationships
   Contract: {
-    events: async (parent: { id: string; address: string }) => {
-      try {
-        // Option 1: Use the direct relationship through contractId (more efficient)
-        const events = await prisma.event.findMany({
-          where: {
-            contractId: parent.id
-          },
-          orderBy: {
-            blockNumber: 'desc'
-          },
-          take: 100, // Limit to prevent large responses
+    events: async (parent: { address: string; network: string }, args: { orderBy?: EventOrderBy[] }) => {
+      const page = PaginationService.parse({ first: 100 }, PaginationService.parseOrder(args.orderBy ?? [])); // Limit to prevent large responses
+
+      try {
+        const { edges } = await DatabaseService.getEventsByContract(parent.address, {
+          network: parent.network,
+          page,
         });
 
-        return events.map((event: Event) => ({
-          ...event,
-          id: event.id,
-          blockNumber: event.blockNumber.toString(),
-          rawLog: JSON.stringify(event.rawLog),
-          createdAt: event.createdAt.toISOString(),
-        }));
+        return edges.map(edge => formatEvent(edge.node));
       } catch (error) {
         console.error('Error fetching contract events:', error);
         return [];
       }
     },
+
+    lastIndexedBlock: (parent: { lastIndexedBlock: bigint | null }) => parent.lastIndexedBlock?.toString() ?? null,
+
+    creationBlock: (parent: { creationBlock: bigint | null }) => parent.creationBlock?.toString() ?? null,
+
+    parent: async (parent: { parentId: string | null }) => {
+      if (!parent.parentId) return null;
+
+      try {
+        const contract = await DatabaseService.getContractById(parent.parentId);
+        if (!contract) return null;
+
+        return {
+          ...contract,
+          createdAt: contract.createdAt.toISOString(),
+          updatedAt: contract.updatedAt.toISOString(),
+        };
+      } catch (error) {
+        console.error('Error fetching parent contract:', error);
+        return null;
+      }
+    },
+
+    children: async (parent: { id: string }) => {
+      try {
+        const children = await FactoryService.getChildren(parent.id);
+        return children.map(contract => ({
+          ...contract,
+          createdAt: contract.createdAt.toISOString(),
+          updatedAt: contract.updatedAt.toISOString(),
+        }));
+      } catch (error) {
+        console.error('Error fetching child contracts:', error);
+        return [];
+      }
+    },
+  },
+
+  Webhook: {
+    deliveries: async (parent: { id: string }, args: { status?: string; limit?: number }) => {
+      try {
+        const deliveries = await WebhookService.getDeliveries(parent.id, {
+          status: args.status as WebhookDeliveryStatus | undefined,
+          limit: args.limit ?? undefined,
+        });
+        return deliveries.map(WebhookService.formatDelivery);
+      } catch (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        return [];
+      }
+    },
+  },
+
+  IndexingJob: {
+    gaps: async (parent: { contractAddress: string; network: string; fromBlock: string; toBlock: string }) => {
+      try {
+        const gaps = await GapService.getOpenGapsInRange(
+          parent.contractAddress,
+          parent.network,
+          BigInt(parent.fromBlock),
+          BigInt(parent.toBlock)
+        );
+        return gaps.map(GapService.formatGap);
+      } catch (error) {
+        console.error('Error fetching job gaps:', error);
+        return [];
+      }
+    },
   },
 
   Event: {
+    blockTimestamp: (parent: { blockTimestamp?: Date | string | null }) =>
+      parent.blockTimestamp ? new Date(parent.blockTimestamp).toISOString() : null,
+
+    decodedArgs: (parent: { args?: unknown }) => EventDecoder.toList(parent.args),
+
     contract: async (parent: { contractId: string }) => {
       try {
         const contract = await DatabaseService.getContractById(parent.contractId);
@@ -0,0 +1,120 @@
+import { Prisma } from '../generated/prisma';
+
+// A condition on one decoded event argument; the operators given are combined with AND
+export interface ArgFilter {
+  name: string;
+  eq?: string;
+  in?: string[];
+  // Numeric comparisons, e.g. "1000000000000000000" or "1e18"
+  gt?: string;
+  lt?: string;
+  // Substring of a string argument, or an element of an array argument
+  contains?: string;
+}
+
+const ARG_OPERATORS = ['eq', 'in', 'gt', 'lt', 'contains'] as const;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+// Stored values that can be compared numerically: decimal strings (uint256) or JSON numbers (uint8)
+const NUMERIC_VALUE_PATTERN = '^-?[0-9]+$';
+
+/**
+ * JSON values a filter value can be stored as. The decoder stores addresses lowercased,
+ * large integers as decimal strings and small integers and booleans as JSON primitives.
+ */
+const storedCandidates = (value: string): unknown[] => {
+  const candidates: unknown[] = [ADDRESS_PATTERN.test(value) ? value.toLowerCase() : value];
+
+  if (INTEGER_PATTERN.test(value) && Number.isSafeInteger(Number(value))) {
+    candidates.push(Number(value));
+  }
+  if (value === 'true' || value === 'false') {
+    candidates.push(value === 'true');
+  }
+
+  return candidates;
+};
+
+// Containment on the whole args column, which the GIN index on Event.args serves
+const containsValue = (name: string, value: unknown) =>
+  Prisma.sql`"args" @> ${JSON.stringify({ [name]: { value } })}::jsonb`;
+
+const anyOf = (conditions: Prisma.Sql[]) => Prisma.sql`(${Prisma.join(conditions, ' OR ')})`;
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Translates argument filters on named params into Postgres JSONB conditions
+export class ArgFilterService {
+  /**
+   * Reject filters without a name or operator and non-numeric gt/lt bounds
+   */
+  static validate(filters: ArgFilter[]) {
+    for (const filter of filters) {
+      if (!filter.name?.trim()) {
+        throw new Error('Argument filters need the name of an event parameter');
+      }
+
+      if (!ARG_OPERATORS.some(operator => filter[operator] != null)) {
+        throw new Error(`Argument filter on "${filter.name}" needs one of: ${ARG_OPERATORS.join(', ')}`);
+      }
+
+      if (filter.in && filter.in.length === 0) {
+        throw new Error(`Argument filter "in" on "${filter.name}" needs at least one value`);
+      }
+
+      for (const operator of ['gt', 'lt'] as const) {
+        const bound = filter[operator];
+        if (bound != null && !NUMBER_PATTERN.test(bound)) {
+          throw new Error(`Argument filter "${operator}" on "${filter.name}" must be a number, got "${bound}"`);
+        }
+      }
+    }
+  }
+
+  /**
+   * A decoded argument as a number, or NULL when it isn't an integer. Guarded so a
+   * non-numeric value can't fail the cast.
+   */
+  static numericValueSql(name: string) {
+    const path = Prisma.sql`"args" #>> ARRAY[${name}, 'value']`;
+    return Prisma.sql`(CASE WHEN ${path} ~ ${NUMERIC_VALUE_PATTERN} THEN (${path})::numeric END)`;
+  }
+
+  /**
+   * SQL conditions on "Event"."args" for every operator of every filter
+   */
+  static toSql(filters: ArgFilter[]): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [];
+
+    for (const { name, ...operators } of filters) {
+      const path = Prisma.sql`"args" #>> ARRAY[${name}, 'value']`;
+
+      // eq and in are containment checks so they can use the index
+      if (operators.eq != null) {
+        conditions.push(anyOf(storedCandidates(operators.eq).map(value => containsValue(name, value))));
+      }
+
+      if (operators.in != null) {
+        conditions.push(anyOf(operators.in.flatMap(storedCandidates).map(value => containsValue(name, value))));
+      }
+
+      // Numeric bounds skip values that aren't integers, which are NULL as numbers
+      for (const [operator, comparison] of [['gt', Prisma.sql`>`], ['lt', Prisma.sql`<`]] as const) {
+        const bound = operators[operator];
+        if (bound == null) continue;
+        conditions.push(Prisma.sql`(${this.numericValueSql(name)} ${comparison} ${bound}::numeric)`);
+      }
+
+      if (operators.contains != null) {
+        const elements = storedCandidates(operators.contains).map(value => containsValue(name, [value]));
+        conditions.push(anyOf([
+          ...elements,
+          Prisma.sql`(jsonb_typeof("args" #> ARRAY[${name}, 'value']) = 'string' AND ${path} ILIKE ${`%${escapeLike(operators.contains)}%`})`,
+        ]));
+      }
+    }
+
+    return conditions;
+  }
+}
@@ -0,0 +1,128 @@
+import { prisma } from './database';
+import { parseRangeLimitError } from './rpc-pool';
+
+// Starting span for a provider we know nothing about (Alchemy's historical limit)
+const DEFAULT_BLOCK_SPAN = 500;
+const MAX_BLOCK_SPAN = 100000;
+
+// Batches returning fewer logs than this double the span of the next request
+const SPARSE_LOG_THRESHOLD = 2000;
+
+interface LearnedRange {
+  blockSpan: number;
+  // Span cap from a block-span rejection; result-size rejections depend on the contract, so they don't set it
+  maxBlockSpan: number | null;
+  // Shrunk after a rejection; saved only once a request succeeds with the new span
+  unconfirmed: boolean;
+  dirty: boolean;
+}
+
+// Learned spans per network and provider, loaded from the database on first use
+const learnedRanges = new Map<string, LearnedRange>();
+
+const rangeKey = (network: string, provider: string) => `${network}|${provider}`;
+
+const clampSpan = (span: number, maxBlockSpan: number | null) =>
+  Math.max(1, Math.min(Math.floor(span), maxBlockSpan ?? MAX_BLOCK_SPAN));
+
+// Adaptive eth_getLogs block spans: shrink when a provider rejects a range, grow while results are sparse
+export class BlockRangeService {
+  private static async getLearnedRange(network: string, provider: string) {
+    const key = rangeKey(network, provider);
+    let learned = learnedRanges.get(key);
+
+    if (!learned) {
+      // A learned span is only an optimization, so fall back to the defaults if it can't be loaded
+      const stored = await prisma.rpcBlockRange.findUnique({
+        where: { network_provider: { network, provider } },
+      }).catch((error) => {
+        console.error(`Error loading learned block span for ${network}:`, error);
+        return null;
+      });
+
+      learned = {
+        blockSpan: stored?.blockSpan ?? DEFAULT_BLOCK_SPAN,
+        maxBlockSpan: stored?.maxBlockSpan ?? null,
+        unconfirmed: false,
+        dirty: false,
+      };
+      learnedRanges.set(key, learned);
+    }
+
+    return learned;
+  }
+
+  /**
+   * Span to start fetching with on this network and provider
+   */
+  static async getBlockSpan(network: string, provider: string) {
+    const learned = await this.getLearnedRange(network, provider);
+    return clampSpan(learned.blockSpan, learned.maxBlockSpan);
+  }
+
+  /**
+   * Remember a span that worked and return the span for the next batch
+   */
+  static async recordSuccess(network: string, provider: string, blockSpan: number, logCount: number) {
+    const learned = await this.getLearnedRange(network, provider);
+
+    if (learned.blockSpan !== blockSpan || learned.unconfirmed) {
+      learned.blockSpan = blockSpan;
+      learned.unconfirmed = false;
+      learned.dirty = true;
+    }
+
+    return logCount < SPARSE_LOG_THRESHOLD
+      ? clampSpan(blockSpan * 2, learned.maxBlockSpan)
+      : blockSpan;
+  }
+
+  /**
+   * Shrink the span after a rejected request. Returns null when the error isn't about
+   * the range size, or the span can't shrink any further. The smaller span is kept in
+   * memory until a request succeeds with it.
+   */
+  static async recordRejection(network: string, provider: string, blockSpan: number, error: unknown) {
+    const rangeError = parseRangeLimitError(error);
+    if (!rangeError || blockSpan <= 1) return null;
+
+    const learned = await this.getLearnedRange(network, provider);
+    let nextSpan = rangeError.suggestedBlockSpan ?? rangeError.maxBlockSpan ?? Math.floor(blockSpan / 2);
+
+    if (rangeError.kind === 'block-span') {
+      const maxBlockSpan = rangeError.maxBlockSpan ?? nextSpan;
+      learned.maxBlockSpan = Math.min(learned.maxBlockSpan ?? MAX_BLOCK_SPAN, maxBlockSpan);
+    }
+
+    // Always make progress towards a span the provider accepts
+    nextSpan = Math.min(clampSpan(nextSpan, learned.maxBlockSpan), blockSpan - 1);
+
+    learned.blockSpan = nextSpan;
+    learned.unconfirmed = true;
+    return nextSpan;
+  }
+
+  /**
+   * Persist the learned span if it changed since it was loaded
+   */
+  static async save(network: string, provider: string) {
+    const learned = learnedRanges.get(rangeKey(network, provider));
+    if (!learned?.dirty) return;
+
+    await prisma.rpcBlockRange.upsert({
+      where: { network_provider: { network, provider } },
+      update: {
+        blockSpan: learned.blockSpan,
+        maxBlockSpan: learned.maxBlockSpan,
+      },
+      create: {
+        network,
+        provider,
+        blockSpan: learned.blockSpan,
+        maxBlockSpan: learned.maxBlockSpan,
+      },
+    });
+
+    learned.dirty = false;
+  }
+}
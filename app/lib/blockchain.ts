@@ -1,37 +1,61 @@
-import { createPublicClient, http } from 'viem';
-import { mainnet, sepolia } from 'viem/chains';
+import { createPublicClient, custom } from 'viem';
+import { ChainService } from './chains';
+import { ProviderPool } from './rpc-pool';
+import { prisma, normalizeAddress } from './database';
 
-// Network configuration with fallback options
-const getNetworkConfig = (network: string) => {
-  switch (network) {
-    case 'mainnet':
-      return {
-        chain: mainnet,
-        rpcUrl: process.env.MAINNET_RPC_URL || process.env.ALCHEMY_MAINNET_URL || 'https://rpc.ankr.com/eth'
-      };
-    case 'sepolia':
+// 'after' finds the first block at or after a time, 'before' the last block at or before it
+export type BlockSearchDirection = 'after' | 'before';
+
+// Create blockchain utilities
+export class BlockchainService {
+  /**
+   * Get the RPC provider pool for a network registered in the Chain table
+   */
+  static async getProviderPool(network: string) {
+    const { chain, rpcUrls } = await ChainService.resolveNetwork(network);
+    return ProviderPool.forNetwork(network, chain, rpcUrls);
+  }
+
+  /**
+   * Create a viem client backed by the network's provider pool
+   */
+  static async createClient(network: string) {
+    const { chain } = await ChainService.resolveNetwork(network);
+    const pool = await this.getProviderPool(network);
+
+    return createPublicClient({
+      chain,
+      // The pool handles retries and failover itself
+      transport: custom({ request: pool.request }, { retryCount: 0 })
+    });
+  }
+
+  /**
+   * Health of every RPC endpoint per network, optionally pinging each one first
+   */
+  static async getRpcHealth(network?: string, probe: boolean = false) {
+    const networks = network
+      ? [network]
+      : (await ChainService.getChains()).map(chain => chain.name);
+
+    return await Promise.all(networks.map(async name => {
+      const pool = await this.getProviderPool(name);
+      if (probe) {
+        await pool.probe();
+      }
       return {
-        chain: sepolia,
-        rpcUrl: process.env.SEPOLIA_RPC_URL || process.env.ALCHEMY_SEPOLIA_URL || 'https://rpc.ankr.com/eth_sepolia'
+        network: name,
+        providers: pool.getHealth(),
       };
-    default:
-      throw new Error(`Unsupported network: ${network}`);
+    }));
   }
-};
 
-// Create blockchain utilities
-export class BlockchainService {
   /**
    * Get the latest block number for a given network
    */
   static async getLatestBlockNumber(network: string = 'sepolia'): Promise<bigint> {
     try {
-      const { chain, rpcUrl } = getNetworkConfig(network);
-      
-      const client = createPublicClient({
-        chain,
-        transport: http(rpcUrl)
-      });
+      const client = await this.createClient(network);
 
       const blockNumber = await client.getBlockNumber();
       return blockNumber;
@@ -46,12 +70,7 @@ export class BlockchainService {
    */
   static async getBlock(blockNumber: bigint, network: string = 'sepolia') {
     try {
-      const { chain, rpcUrl } = getNetworkConfig(network);
-      
-      const client = createPublicClient({
-        chain,
-        transport: http(rpcUrl)
-      });
+      const client = await this.createClient(network);
 
       const block = await client.getBlock({ blockNumber });
       return block;
@@ -61,6 +80,104 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Find a block by timestamp with a binary search over block headers. Stored headers
+   * narrow the search before any RPC call. Returns null when no block matches, e.g.
+   * 'after' a time past the chain head.
+   */
+  static async getBlockNumberByTimestamp(
+    network: string,
+    timestamp: Date,
+    direction: BlockSearchDirection
+  ): Promise<bigint | null> {
+    const [below, above] = await Promise.all([
+      prisma.blockHeader.findFirst({
+        where: { network, timestamp: { lte: timestamp } },
+        orderBy: { blockNumber: 'desc' },
+        select: { blockNumber: true },
+      }),
+      prisma.blockHeader.findFirst({
+        where: { network, timestamp: { gte: timestamp } },
+        orderBy: { blockNumber: 'asc' },
+        select: { blockNumber: true },
+      }),
+    ]);
+
+    const client = await this.createClient(network);
+    const target = BigInt(Math.floor(timestamp.getTime() / 1000));
+    const blockTime = async (blockNumber: bigint) => (await client.getBlock({ blockNumber })).timestamp;
+
+    let low = below?.blockNumber ?? BigInt(0);
+    let high = above?.blockNumber ?? await client.getBlockNumber();
+
+    if (direction === 'after') {
+      if (!above && await blockTime(high) < target) return null;
+
+      while (low < high) {
+        const mid = (low + high) / BigInt(2);
+        if (await blockTime(mid) >= target) {
+          high = mid;
+        } else {
+          low = mid + BigInt(1);
+        }
+      }
+      return low;
+    }
+
+    if (!below && await blockTime(low) > target) return null;
+
+    while (low < high) {
+      const mid = (low + high + BigInt(1)) / BigInt(2);
+      if (await blockTime(mid) <= target) {
+        low = mid;
+      } else {
+        high = mid - BigInt(1);
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Block a contract was deployed in: the first block with code at its address, found
+   * with a binary search over getCode (needs an archive RPC). The result is stored on the
+   * registered contract. Returns null when there is no code at the head.
+   */
+  static async getContractCreationBlock(network: string, address: `0x${string}`): Promise<bigint | null> {
+    const contract = await prisma.contract.findUnique({
+      where: { address_network: { address: normalizeAddress(address), network } },
+      select: { creationBlock: true },
+    });
+    if (contract?.creationBlock != null) {
+      return contract.creationBlock;
+    }
+
+    const client = await this.createClient(network);
+    const hasCode = async (blockNumber: bigint) => {
+      const code = await client.getCode({ address, blockNumber });
+      return code !== undefined && code !== '0x';
+    };
+
+    let low = BigInt(0);
+    let high = await client.getBlockNumber();
+    if (!await hasCode(high)) return null;
+
+    while (low < high) {
+      const mid = (low + high) / BigInt(2);
+      if (await hasCode(mid)) {
+        high = mid;
+      } else {
+        low = mid + BigInt(1);
+      }
+    }
+
+    await prisma.contract.updateMany({
+      where: { address: normalizeAddress(address), network, creationBlock: null },
+      data: { creationBlock: low },
+    });
+
+    return low;
+  }
+
   /**
    * Calculate recommended block range (latest block - 1000 to latest block)
    */
@@ -0,0 +1,225 @@
+import { defineChain, Chain as ViemChain } from 'viem';
+import * as viemChains from 'viem/chains';
+import { prisma } from './database';
+import type { Chain } from '../generated/prisma';
+
+export interface ChainInput {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  // Additional endpoints the provider pool fails over to
+  rpcUrls?: string[];
+  blockTime?: number | null;
+  // Blocks behind the head before an event is confirmed
+  confirmations?: number;
+  // Depth treated as final when the node doesn't support the finalized block tag
+  finalityDepth?: number;
+  isActive?: boolean;
+}
+
+export interface NetworkConfig {
+  chain: ViemChain;
+  chainId: number;
+  rpcUrl: string;
+  rpcUrls: string[];
+  blockTime: number | null;
+}
+
+// Networks seeded into the Chain table on first use so existing deployments keep working
+const DEFAULT_CHAINS: Record<string, () => ChainInput> = {
+  mainnet: () => ({
+    chainId: viemChains.mainnet.id,
+    name: 'mainnet',
+    rpcUrl: process.env.MAINNET_RPC_URL || process.env.ALCHEMY_MAINNET_URL || 'https://rpc.ankr.com/eth',
+    rpcUrls: ['https://rpc.ankr.com/eth'],
+    blockTime: 12,
+  }),
+  sepolia: () => ({
+    chainId: viemChains.sepolia.id,
+    name: 'sepolia',
+    rpcUrl: process.env.SEPOLIA_RPC_URL || process.env.ALCHEMY_SEPOLIA_URL || 'https://rpc.ankr.com/eth_sepolia',
+    rpcUrls: ['https://rpc.ankr.com/eth_sepolia'],
+    blockTime: 12,
+  }),
+};
+
+// Resolved chains are cached briefly so every RPC call doesn't hit the database
+const CHAIN_CACHE_TTL_MS = 60 * 1000;
+const chainCache = new Map<string, { chain: Chain; expiresAt: number }>();
+
+const NETWORK_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const KNOWN_VIEM_CHAINS = Object.values(viemChains) as ViemChain[];
+
+// Use viem's built-in definition when we know the chain id, otherwise define a minimal one
+const toViemChain = (chain: Chain): ViemChain => {
+  const known = KNOWN_VIEM_CHAINS.find(c => c.id === chain.chainId);
+  if (known) return known;
+
+  return defineChain({
+    id: chain.chainId,
+    name: chain.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: {
+      default: { http: [chain.rpcUrl] },
+    },
+  });
+};
+
+const validateChainInput = (input: Partial<ChainInput>) => {
+  if (input.chainId != null && (!Number.isInteger(input.chainId) || input.chainId <= 0)) {
+    throw new Error(`Invalid chainId: ${input.chainId}`);
+  }
+
+  if (input.name != null && !NETWORK_NAME_PATTERN.test(input.name)) {
+    throw new Error(`Invalid network name "${input.name}". Use lowercase letters, digits and dashes.`);
+  }
+
+  const rpcUrls = [
+    ...(input.rpcUrl != null ? [input.rpcUrl] : []),
+    ...(input.rpcUrls ?? []),
+  ];
+
+  for (const rpcUrl of rpcUrls) {
+    let protocol: string;
+    try {
+      protocol = new URL(rpcUrl).protocol;
+    } catch {
+      throw new Error(`Invalid RPC URL: ${rpcUrl}`);
+    }
+    if (!['http:', 'https:'].includes(protocol)) {
+      throw new Error(`RPC URL must use http or https: ${rpcUrl}`);
+    }
+  }
+
+  if (input.blockTime != null && input.blockTime <= 0) {
+    throw new Error(`Invalid blockTime: ${input.blockTime}`);
+  }
+
+  for (const field of ['confirmations', 'finalityDepth'] as const) {
+    const depth = input[field];
+    if (depth != null && (!Number.isInteger(depth) || depth < 0)) {
+      throw new Error(`Invalid ${field}: ${depth}`);
+    }
+  }
+};
+
+// Supported networks, backed by the Chain table
+export class ChainService {
+  static async getChains(includeInactive: boolean = false) {
+    await this.seedDefaultChains();
+
+    return await prisma.chain.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { chainId: 'asc' },
+    });
+  }
+
+  /**
+   * Look up a network by name, seeding built-in defaults the first time they are used
+   */
+  static async getChain(network: string): Promise<Chain | null> {
+    const cached = chainCache.get(network);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.chain;
+    }
+
+    let chain = await prisma.chain.findUnique({ where: { name: network } });
+
+    if (!chain && DEFAULT_CHAINS[network]) {
+      chain = await prisma.chain.upsert({
+        where: { name: network },
+        update: {},
+        create: DEFAULT_CHAINS[network](),
+      });
+    }
+
+    if (chain) {
+      chainCache.set(network, { chain, expiresAt: Date.now() + CHAIN_CACHE_TTL_MS });
+    }
+    return chain;
+  }
+
+  /**
+   * Resolve a network name to a viem chain and RPC URL
+   */
+  static async resolveNetwork(network: string): Promise<NetworkConfig> {
+    const chain = await this.getChain(network);
+
+    if (!chain || !chain.isActive) {
+      throw new Error(`Unsupported network: ${network}`);
+    }
+
+    return {
+      chain: toViemChain(chain),
+      chainId: chain.chainId,
+      rpcUrl: chain.rpcUrl,
+      rpcUrls: [...new Set([chain.rpcUrl, ...chain.rpcUrls])],
+      blockTime: chain.blockTime,
+    };
+  }
+
+  static async registerChain(input: ChainInput) {
+    validateChainInput(input);
+
+    const existing = await prisma.chain.findFirst({
+      where: {
+        OR: [{ name: input.name }, { chainId: input.chainId }],
+      },
+    });
+    if (existing) {
+      throw new Error(`Chain already registered: ${existing.name} (chainId ${existing.chainId})`);
+    }
+
+    const chain = await prisma.chain.create({
+      data: {
+        chainId: input.chainId,
+        name: input.name,
+        rpcUrl: input.rpcUrl,
+        rpcUrls: input.rpcUrls ?? [],
+        blockTime: input.blockTime ?? null,
+        ...(input.confirmations != null && { confirmations: input.confirmations }),
+        ...(input.finalityDepth != null && { finalityDepth: input.finalityDepth }),
+        isActive: input.isActive ?? true,
+      },
+    });
+
+    chainCache.delete(chain.name);
+    return chain;
+  }
+
+  /**
+   * Update a registered network. The name is immutable since events and checkpoints reference it.
+   */
+  static async updateChain(network: string, input: Partial<Omit<ChainInput, 'name'>>) {
+    validateChainInput(input);
+
+    const existing = await this.getChain(network);
+    if (!existing) {
+      throw new Error(`Unknown network: ${network}`);
+    }
+
+    const chain = await prisma.chain.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.chainId != null && { chainId: input.chainId }),
+        ...(input.rpcUrl != null && { rpcUrl: input.rpcUrl }),
+        ...(input.rpcUrls != null && { rpcUrls: input.rpcUrls }),
+        ...(input.blockTime !== undefined && { blockTime: input.blockTime }),
+        ...(input.confirmations != null && { confirmations: input.confirmations }),
+        ...(input.finalityDepth != null && { finalityDepth: input.finalityDepth }),
+        ...(input.isActive != null && { isActive: input.isActive }),
+      },
+    });
+
+    chainCache.delete(network);
+    return chain;
+  }
+
+  static async seedDefaultChains() {
+    for (const network of Object.keys(DEFAULT_CHAINS)) {
+      await this.getChain(network);
+    }
+  }
+
+}
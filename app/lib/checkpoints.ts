@@ -0,0 +1,107 @@
+import { createHash } from 'node:crypto';
+import { prisma, normalizeAddress } from './database';
+import type { TopicFilter } from './indexer';
+import type { Prisma } from '../generated/prisma';
+
+export interface CheckpointUpdate {
+  contractAddress: string;
+  network: string;
+  eventNames: string[];
+  topicFilters?: TopicFilter[];
+  // Range this pass scanned, ending at the last block fetched or recorded as a gap
+  fromBlock: bigint;
+  scannedToBlock: bigint;
+}
+
+// Highest fully scanned block per contract and event set
+export class CheckpointService {
+  /**
+   * Stable key for a set of tracked events and topic filters, independent of their order
+   */
+  static eventSetKey(eventNames: string[], topicFilters: TopicFilter[] = []) {
+    const names = [...new Set(eventNames)].sort();
+    const filters = topicFilters.map(filter => JSON.stringify(filter)).sort();
+
+    return createHash('sha256')
+      .update(JSON.stringify({ names, filters }))
+      .digest('hex');
+  }
+
+  static async getCheckpoint(contractAddress: string, network: string, eventSet: string) {
+    return await prisma.indexingCheckpoint.findUnique({
+      where: {
+        contractAddress_network_eventSet: {
+          contractAddress: normalizeAddress(contractAddress),
+          network,
+          eventSet,
+        },
+      },
+    });
+  }
+
+  /**
+   * Advance the checkpoint after a scanned range, inside the transaction that stored its
+   * events. Ranges that start past the checkpoint leave a hole, so they don't move it;
+   * older ranges never move it back. IndexingStatus and Contract.lastIndexedBlock follow.
+   */
+  static async advance(tx: Prisma.TransactionClient, update: CheckpointUpdate) {
+    const contractAddress = normalizeAddress(update.contractAddress);
+    const { network, fromBlock, scannedToBlock } = update;
+    const eventSet = this.eventSetKey(update.eventNames, update.topicFilters);
+
+    if (scannedToBlock < fromBlock) return null;
+
+    const where = { contractAddress_network_eventSet: { contractAddress, network, eventSet } };
+    const existing = await tx.indexingCheckpoint.findUnique({ where });
+
+    if (existing && (fromBlock > existing.lastScannedBlock + BigInt(1) || scannedToBlock <= existing.lastScannedBlock)) {
+      return existing;
+    }
+
+    const checkpoint = await tx.indexingCheckpoint.upsert({
+      where,
+      update: { lastScannedBlock: scannedToBlock },
+      create: {
+        contractAddress,
+        network,
+        eventSet,
+        eventNames: update.eventNames,
+        lastScannedBlock: scannedToBlock,
+      },
+    });
+
+    // Status fields show the furthest checkpoint of any event set
+    const status = await tx.indexingStatus.findUnique({
+      where: { contractAddress_network: { contractAddress, network } },
+    });
+    if (!status || status.lastIndexedBlock < scannedToBlock) {
+      await tx.indexingStatus.upsert({
+        where: { contractAddress_network: { contractAddress, network } },
+        update: {
+          lastIndexedBlock: scannedToBlock,
+          lastIndexedAt: new Date(),
+        },
+        create: {
+          contractAddress,
+          network,
+          lastIndexedBlock: scannedToBlock,
+          lastIndexedAt: new Date(),
+        },
+      });
+    }
+
+    await tx.contract.updateMany({
+      where: {
+        address: contractAddress,
+        network,
+        OR: [
+          { lastIndexedBlock: null },
+          { lastIndexedBlock: { lt: scannedToBlock } },
+        ],
+      },
+      data: { lastIndexedBlock: scannedToBlock },
+    });
+
+    return checkpoint;
+  }
+}
@@ -0,0 +1,347 @@
+import { isAddress } from 'viem';
+import { prisma, DatabaseService, normalizeAddress } from './database';
+import { BlockchainService } from './blockchain';
+import { ChainService } from './chains';
+import { IndexerService, ABIItem, TopicFilter, ANY_ADDRESS } from './indexer';
+import { JobService } from './jobs';
+import { CheckpointService } from './checkpoints';
+import { Prisma, type Contract } from '../generated/prisma';
+
+export type ContractErrorCode = 'VALIDATION_ERROR' | 'NOT_FOUND' | 'CONFLICT';
+
+// A rejected management request; GraphQL mutations return these as typed errors
+export class ContractManagementError extends Error {
+  constructor(
+    public readonly code: ContractErrorCode,
+    message: string,
+    // Input field the error refers to
+    public readonly field?: string
+  ) {
+    super(message);
+    this.name = 'ContractManagementError';
+  }
+}
+
+export interface RegisterContractInput {
+  address: string;
+  network: string;
+  abi: ABIItem[];
+  name?: string;
+  // Empty tracks every event in the ABI
+  eventsToTrack?: string[];
+}
+
+export interface StartIndexingInput {
+  address: string;
+  network: string;
+  // A block number, 'earliest' (the default: the contract's creation block), or 'resume'
+  // to continue after the contract's checkpoint
+  fromBlock?: string;
+  // A block number or 'latest'
+  toBlock?: string;
+  // ISO 8601 dates, resolved to the first block at or after fromDate and the last block at or before toDate
+  fromDate?: string;
+  toDate?: string;
+}
+
+const BLOCK_NUMBER_PATTERN = /^\d+$/;
+
+const validateAddress = (address: string, allowAnyAddress = true) => {
+  if (allowAnyAddress && address === ANY_ADDRESS) return;
+
+  if (!isAddress(address, { strict: false })) {
+    throw new ContractManagementError('VALIDATION_ERROR', `Invalid contract address: ${address}`, 'address');
+  }
+};
+
+const parseBlock = (value: string, field: string) => {
+  if (!BLOCK_NUMBER_PATTERN.test(value)) {
+    throw new ContractManagementError('VALIDATION_ERROR', `${field} must be a block number`, field);
+  }
+  return BigInt(value);
+};
+
+/**
+ * Check that an ABI has trackable events and that every requested event is a valid,
+ * non-anonymous event in it
+ */
+const validateAbi = (abi: ABIItem[], eventsToTrack: string[]) => {
+  if (!Array.isArray(abi) || !abi.some(item => item.type === 'event')) {
+    throw new ContractManagementError('VALIDATION_ERROR', 'ABI must be a JSON ABI with at least one event', 'abi');
+  }
+
+  const eventSignatures = IndexerService.extractEventSignatures(abi, eventsToTrack);
+  const missingEvents = eventsToTrack.filter(name => !eventSignatures.some(eventSig => eventSig.name === name));
+  if (missingEvents.length > 0) {
+    throw new ContractManagementError('VALIDATION_ERROR', `No matching events found in ABI for: ${missingEvents.join(', ')}`, 'eventsToTrack');
+  }
+
+  const invalidEvents = eventSignatures.filter(eventSig => !IndexerService.isValidEventSignature(eventSig));
+  if (invalidEvents.length > 0) {
+    throw new ContractManagementError('VALIDATION_ERROR', `Invalid event definitions in ABI: ${invalidEvents.map(eventSig => eventSig.name).join(', ')}`, 'abi');
+  }
+
+  // Anonymous events need raw topic filters, which only POST /api/indexer accepts
+  const anonymousEvents = eventsToTrack.length > 0
+    ? eventSignatures.filter(eventSig => eventSig.signature.anonymous)
+    : [];
+  if (anonymousEvents.length > 0) {
+    throw new ContractManagementError('VALIDATION_ERROR', `Anonymous events need a topic filter; index them through POST /api/indexer: ${anonymousEvents.map(eventSig => eventSig.name).join(', ')}`, 'eventsToTrack');
+  }
+};
+
+const parseDate = (value: string, field: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ContractManagementError('VALIDATION_ERROR', `${field} must be an ISO 8601 date`, field);
+  }
+  return date;
+};
+
+const validateNetwork = async (network: string) => {
+  const chain = await ChainService.getChain(network);
+  if (!chain || !chain.isActive) {
+    throw new ContractManagementError('VALIDATION_ERROR', `Unsupported network: ${network}. Register it with the registerChain mutation first.`, 'network');
+  }
+};
+
+// Registration, indexing and lifecycle of contracts for the GraphQL mutations
+export class ContractService {
+  /**
+   * ABI given either as ABI entries or as a JSON string; exactly one is required
+   */
+  static parseAbiInput(abi?: ABIItem[] | null, abiJson?: string | null): ABIItem[] {
+    if ((abi == null) === (abiJson == null)) {
+      throw new ContractManagementError('VALIDATION_ERROR', 'Provide exactly one of abi or abiJson', 'abi');
+    }
+    if (abi) return abi;
+
+    try {
+      return JSON.parse(abiJson!);
+    } catch {
+      throw new ContractManagementError('VALIDATION_ERROR', 'Invalid ABI format. Please provide valid JSON.', 'abiJson');
+    }
+  }
+
+  /**
+   * Load a registered contract or fail with NOT_FOUND
+   */
+  static async requireContract(address: string, network: string) {
+    validateAddress(address);
+
+    const contract = await DatabaseService.getContract(address, network);
+    if (!contract) {
+      throw new ContractManagementError('NOT_FOUND', `Contract ${address} is not registered on ${network}`, 'address');
+    }
+    return contract;
+  }
+
+  static async registerContract(input: RegisterContractInput) {
+    const eventsToTrack = input.eventsToTrack ?? [];
+
+    validateAddress(input.address, false);
+    validateAbi(input.abi, eventsToTrack);
+    await validateNetwork(input.network);
+
+    const existing = await DatabaseService.getContract(input.address, input.network);
+    if (existing) {
+      throw new ContractManagementError('CONFLICT', `Contract ${input.address} is already registered on ${input.network}; use updateContractAbi to change it`, 'address');
+    }
+
+    const address = normalizeAddress(input.address);
+    return await DatabaseService.createOrUpdateContract(
+      address,
+      input.abi as unknown as Record<string, unknown>[],
+      input.network,
+      input.name ?? `Contract ${address.slice(0, 8)}...`,
+      eventsToTrack
+    );
+  }
+
+  /**
+   * Replace a contract's ABI, and optionally its tracked events. Events already stored keep
+   * their decoded arguments; reindexRange decodes a range again with the new ABI.
+   */
+  static async updateContractAbi(address: string, network: string, abi: ABIItem[], eventsToTrack?: string[]) {
+    const contract = await this.requireContract(address, network);
+    const trackedEvents = eventsToTrack ?? contract.trackedEvents;
+
+    validateAbi(abi, trackedEvents);
+
+    return await prisma.contract.update({
+      where: { id: contract.id },
+      data: {
+        abi: abi as unknown as Prisma.InputJsonValue,
+        trackedEvents,
+      },
+    });
+  }
+
+  /**
+   * Queue an indexing job for a registered contract with its stored ABI and events
+   */
+  static async startIndexing(input: StartIndexingInput) {
+    const contract = await this.requireContract(input.address, input.network);
+    if (!contract.isActive) {
+      throw new ContractManagementError('CONFLICT', `Contract ${contract.address} is paused; resume it first`, 'address');
+    }
+
+    if (input.fromDate != null && input.fromBlock != null) {
+      throw new ContractManagementError('VALIDATION_ERROR', 'Provide either fromBlock or fromDate', 'fromDate');
+    }
+    if (input.toDate != null && input.toBlock != null) {
+      throw new ContractManagementError('VALIDATION_ERROR', 'Provide either toBlock or toDate', 'toDate');
+    }
+
+    const fromBlock = input.fromBlock ?? 'earliest';
+    const toBlock = input.toBlock ?? 'latest';
+    const fromDate = input.fromDate != null ? parseDate(input.fromDate, 'fromDate') : null;
+    const toDate = input.toDate != null ? parseDate(input.toDate, 'toDate') : null;
+
+    const client = await BlockchainService.createClient(contract.network);
+    const currentBlock = await client.getBlockNumber();
+
+    let fromBlockNum = fromBlock === 'earliest' || fromBlock === 'resume' ? BigInt(0) : parseBlock(fromBlock, 'fromBlock');
+    let toBlockNum = toBlock === 'latest' ? currentBlock : parseBlock(toBlock, 'toBlock');
+    if (toBlockNum > currentBlock) {
+      throw new ContractManagementError('VALIDATION_ERROR', `toBlock ${toBlockNum} is past the latest block on ${contract.network} (${currentBlock})`, 'toBlock');
+    }
+
+    if (fromDate) {
+      const block = await BlockchainService.getBlockNumberByTimestamp(contract.network, fromDate, 'after');
+      if (block === null) {
+        throw new ContractManagementError('VALIDATION_ERROR', `No blocks on ${contract.network} at or after ${input.fromDate}`, 'fromDate');
+      }
+      fromBlockNum = block;
+    }
+
+    if (toDate) {
+      const block = await BlockchainService.getBlockNumberByTimestamp(contract.network, toDate, 'before');
+      if (block === null) {
+        throw new ContractManagementError('VALIDATION_ERROR', `No blocks on ${contract.network} at or before ${input.toDate}`, 'toDate');
+      }
+      toBlockNum = block;
+    }
+
+    // 'earliest' starts where the contract was deployed rather than at genesis
+    if (fromBlock === 'earliest' && !fromDate) {
+      if (contract.address === ANY_ADDRESS) {
+        throw new ContractManagementError('VALIDATION_ERROR', 'An "any address" subscription needs a fromBlock number or fromDate', 'fromBlock');
+      }
+
+      const creationBlock = await BlockchainService.getContractCreationBlock(contract.network, contract.address as `0x${string}`);
+      if (creationBlock === null) {
+        throw new ContractManagementError('VALIDATION_ERROR', `No contract code at ${contract.address} on ${contract.network}`, 'address');
+      }
+      fromBlockNum = creationBlock;
+    }
+
+    const { eventSignatures, topicFilters } = this.resolveTracking(contract);
+
+    if (fromBlock === 'resume') {
+      const eventSet = CheckpointService.eventSetKey(eventSignatures.map(eventSig => eventSig.name), topicFilters);
+      const checkpoint = await CheckpointService.getCheckpoint(contract.address, contract.network, eventSet);
+      if (!checkpoint) {
+        throw new ContractManagementError('VALIDATION_ERROR', `No checkpoint for ${contract.address} on ${contract.network} with its tracked events; index a block range first`, 'fromBlock');
+      }
+
+      fromBlockNum = checkpoint.lastScannedBlock + BigInt(1);
+      if (fromBlockNum > toBlockNum) {
+        return { job: null, message: `Already indexed through block ${checkpoint.lastScannedBlock}` };
+      }
+    }
+
+    if (toBlockNum < fromBlockNum) {
+      throw new ContractManagementError('VALIDATION_ERROR', `Invalid block range: fromBlock ${fromBlockNum} is after toBlock ${toBlockNum}`, 'toBlock');
+    }
+
+    return { job: await this.createJob(contract, fromBlockNum, toBlockNum), message: null };
+  }
+
+  /**
+   * Stop the worker from following a contract. Queued jobs still run.
+   */
+  static async pauseContract(address: string, network: string) {
+    return await this.setActive(address, network, false);
+  }
+
+  static async resumeContract(address: string, network: string) {
+    return await this.setActive(address, network, true);
+  }
+
+  /**
+   * Queue a range again, e.g. after updateContractAbi. Each chunk replaces the stored
+   * events of its blocks when it is stored, so the range keeps its data until then.
+   */
+  static async reindexRange(address: string, network: string, fromBlock: string, toBlock: string) {
+    const contract = await this.requireContract(address, network);
+    const fromBlockNum = parseBlock(fromBlock, 'fromBlock');
+    const toBlockNum = parseBlock(toBlock, 'toBlock');
+
+    if (toBlockNum < fromBlockNum) {
+      throw new ContractManagementError('VALIDATION_ERROR', `Invalid block range: fromBlock ${fromBlockNum} is after toBlock ${toBlockNum}`, 'toBlock');
+    }
+
+    const job = await this.createJob(contract, fromBlockNum, toBlockNum, true);
+    return { job, message: `Queued blocks ${fromBlockNum}-${toBlockNum} for reindexing; stored events are replaced as each chunk is indexed` };
+  }
+
+  /**
+   * Delete a contract with its events, indexing state and jobs. Child contracts of a
+   * factory are kept and detached.
+   */
+  static async deleteContract(address: string, network: string) {
+    const contract = await this.requireContract(address, network);
+    const where = { contractAddress: contract.address, network: contract.network };
+
+    const [events] = await prisma.$transaction([
+      prisma.event.deleteMany({ where: { contractId: contract.id } }),
+      prisma.indexingStatus.deleteMany({ where }),
+      prisma.indexingCheckpoint.deleteMany({ where }),
+      prisma.indexingGap.deleteMany({ where }),
+      prisma.indexingJob.deleteMany({ where }),
+      prisma.contract.updateMany({ where: { parentId: contract.id }, data: { parentId: null } }),
+      prisma.contract.delete({ where: { id: contract.id } }),
+    ]);
+
+    console.log(`Deleted contract ${contract.address} on ${contract.network} with ${events.count} events`);
+    return { deleted: true, deletedEvents: events.count };
+  }
+
+  private static resolveTracking(contract: Contract) {
+    return IndexerService.resolveTracking(
+      contract.abi as unknown as ABIItem[],
+      contract.trackedEvents,
+      contract.topicFilters as unknown as TopicFilter[]
+    );
+  }
+
+  private static async createJob(contract: Contract, fromBlock: bigint, toBlock: bigint, replaceEvents: boolean = false) {
+    return await JobService.createJob({
+      contractAddress: contract.address,
+      network: contract.network,
+      eventsToTrack: contract.trackedEvents,
+      topicFilters: contract.topicFilters as unknown as TopicFilter[],
+      fromBlock,
+      toBlock,
+      replaceEvents,
+    });
+  }
+
+  private static async setActive(address: string, network: string, isActive: boolean) {
+    const contract = await this.requireContract(address, network);
+
+    const [updated] = await prisma.$transaction([
+      prisma.contract.update({
+        where: { id: contract.id },
+        data: { isActive },
+      }),
+      prisma.indexingStatus.updateMany({
+        where: { contractAddress: contract.address, network: contract.network },
+        data: { isActive },
+      }),
+    ]);
+
+    return updated;
+  }
+}
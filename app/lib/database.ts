@@ -1,4 +1,9 @@
-import { PrismaClient, Prisma } from '../generated/prisma';
+import { PrismaClient, Prisma, type Event } from '../generated/prisma';
+import { SubscriptionService } from './subscriptions';
+import { ArgFilterService, ArgFilter } from './arg-filters';
+import { PaginationService, EventPageRequest } from './pagination';
+import { EventDecoder } from './decoder';
+import type { Abi, Hex } from 'viem';
 
 // Global Prisma instance for development
 const globalForPrisma = globalThis as unknown as {
@@ -9,6 +14,44 @@ export const prisma = globalForPrisma.prisma ?? new PrismaClient();
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
+// Addresses are stored lowercase; checksummed input is accepted everywhere and normalized
+export const normalizeAddress = (address: string) => address.toLowerCase();
+
+interface EventWhere {
+  contractAddress?: string;
+  eventName?: string;
+  eventNames?: string[];
+  network?: string;
+  anonymous?: boolean;
+  status?: string;
+  blockNumber?: { gte?: bigint; lte?: bigint };
+  blockTimestamp?: { gte?: Date; lte?: Date };
+  createdAt?: { gte?: Date; lte?: Date };
+}
+
+// SQL conditions on the "Event" table equivalent to a Prisma where on these columns
+const eventWhereSql = (where: EventWhere): Prisma.Sql[] => {
+  const conditions: Prisma.Sql[] = [];
+
+  for (const column of ['contractAddress', 'eventName', 'network', 'anonymous', 'status'] as const) {
+    if (where[column] != null) {
+      conditions.push(Prisma.sql`${Prisma.raw(`"${column}"`)} = ${where[column]}`);
+    }
+  }
+
+  if (where.eventNames?.length) {
+    conditions.push(Prisma.sql`"eventName" IN (${Prisma.join(where.eventNames)})`);
+  }
+
+  for (const column of ['blockNumber', 'blockTimestamp', 'createdAt'] as const) {
+    const range = where[column];
+    if (range?.gte != null) conditions.push(Prisma.sql`${Prisma.raw(`"${column}"`)} >= ${range.gte}`);
+    if (range?.lte != null) conditions.push(Prisma.sql`${Prisma.raw(`"${column}"`)} <= ${range.lte}`);
+  }
+
+  return conditions;
+};
+
 // Database utility functions
 export class DatabaseService {
 
@@ -16,14 +59,19 @@ export class DatabaseService {
     address: string, 
     abi: Record<string, unknown>[], 
     network: string, 
-    name?: string
+    name?: string,
+    trackedEvents?: string[],
+    topicFilters?: Record<string, unknown>[]
   ) {
+    address = normalizeAddress(address);
+
     return await prisma.contract.upsert({
-      where: { address },
+      where: { address_network: { address, network } },
       update: {
         abi: abi as Prisma.InputJsonValue, // Proper Prisma Json input type
-        network,
         name,
+        ...(trackedEvents && { trackedEvents }),
+        ...(topicFilters && { topicFilters: topicFilters as Prisma.InputJsonValue }),
         updatedAt: new Date(),
       },
       create: {
@@ -31,6 +79,37 @@ export class DatabaseService {
         abi: abi as Prisma.InputJsonValue, // Proper Prisma Json input type
         network,
         name,
+        trackedEvents: trackedEvents ?? [],
+        topicFilters: (topicFilters ?? []) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Find a contract by address, registering it with the given ABI if it's new.
+   * Existing contracts keep their own ABI and settings.
+   */
+  static async getOrCreateContract(
+    address: string,
+    abi: Record<string, unknown>[],
+    network: string,
+    options: { name?: string; trackedEvents?: string[]; isActive?: boolean } = {}
+  ) {
+    address = normalizeAddress(address);
+
+    const existing = await prisma.contract.findUnique({
+      where: { address_network: { address, network } },
+    });
+    if (existing) return existing;
+
+    return await prisma.contract.create({
+      data: {
+        address,
+        abi: abi as Prisma.InputJsonValue,
+        network,
+        name: options.name,
+        trackedEvents: options.trackedEvents ?? [],
+        isActive: options.isActive ?? true,
       },
     });
   }
@@ -38,8 +117,10 @@ export class DatabaseService {
   static async storeEvents(
     events: Record<string, unknown>[],
     contractId: string,
-    network: string
-  ): Promise<{ count: number }> {
+    network: string,
+    // Pass a transaction client to store events atomically with other writes
+    client: Prisma.TransactionClient = prisma
+  ): Promise<{ count: number; events: Event[] }> {
     console.log(`Processing ${events.length} events for storage...`); // comment
     
     // Helper function to serialize BigInt values
@@ -56,21 +137,28 @@ export class DatabaseService {
           console.log('Sample event structure:', serializeBigInt(event));
         }
 
+        // Decoded args are persisted in their own column, not duplicated in rawLog
+        const { decodedArgs, blockTimestamp, status, ...rawLog } = event;
+
         const record = {
           blockNumber: BigInt(String(event.blockNumber || 0)),
           blockHash: String(event.blockHash || ''),
-          blockTimestamp: null, // Viem logs don't include timestamp, we'll set it as null
+          blockTimestamp: blockTimestamp instanceof Date ? blockTimestamp : null, // Resolved from block headers by the indexer
           transactionHash: String(event.transactionHash || ''),
           transactionIndex: Number(event.transactionIndex || 0),
           logIndex: Number(event.logIndex || 0),
           contractId,
-          contractAddress: String(event.address || '').toLowerCase(),
+          contractAddress: normalizeAddress(String(event.address || '')),
           eventName: String(event.eventName || 'Unknown'),
-          eventSignature: Array.isArray(event.topics) && event.topics[0] ? String(event.topics[0]) : '',
+          // Anonymous events have no signature topic; topic0 is their first indexed argument
+          anonymous: event.anonymous === true,
+          eventSignature: event.anonymous !== true && Array.isArray(event.topics) && event.topics[0] ? String(event.topics[0]) : '',
           indexedParams: Array.isArray(event.topics) ? event.topics : [],
           data: typeof event.data === 'string' ? event.data : JSON.stringify(event.data || ''),
-          rawLog: JSON.parse(serializeBigInt(event)), // Use our BigInt-safe serialization
+          args: decodedArgs ? (decodedArgs as Prisma.InputJsonValue) : Prisma.JsonNull,
+          rawLog: JSON.parse(serializeBigInt(rawLog)), // Use our BigInt-safe serialization
           network,
+          status: typeof status === 'string' ? status : 'pending',
         };
 
         // comment
@@ -91,18 +179,207 @@ export class DatabaseService {
     // comment
     console.log(`Attempting to store ${eventRecords.length} processed events...`);
 
-    // Use createMany with skipDuplicates to handle potential duplicates
-    const result = await prisma.event.createMany({
+    // skipDuplicates handles potential duplicates; only the inserted rows are returned
+    const storedEvents = await client.event.createManyAndReturn({
       data: eventRecords,
       skipDuplicates: true,
     });
 
     // comment
-    console.log(`Successfully stored ${result.count} events in database`);
-    return result;
+    console.log(`Successfully stored ${storedEvents.length} events in database`);
+
+    // Inside a transaction the caller publishes and queues webhooks once it commits
+    if (client === prisma) {
+      SubscriptionService.publishEvents(storedEvents);
+      await DatabaseService.enqueueWebhookDeliveries(storedEvents);
+    }
+
+    return { count: storedEvents.length, events: storedEvents };
+  }
+
+  /**
+   * Queue webhook deliveries for newly stored events. Failures are logged rather than
+   * failing the indexing run, since the events themselves are already stored.
+   */
+  static async enqueueWebhookDeliveries(events: Event[]) {
+    try {
+      // Loaded lazily since the webhook service reads through this module
+      const { WebhookService } = await import('./webhooks');
+      await WebhookService.enqueueDeliveries(events);
+    } catch (error) {
+      console.error('Error queueing webhook deliveries:', error);
+    }
+  }
+
+  /**
+   * Resolve timestamps for a set of blocks, using the BlockHeader cache and
+   * fetching (deduplicated, in small concurrent batches) only the missing ones
+   */
+  static async resolveBlockTimestamps(
+    blockNumbers: bigint[],
+    network: string
+  ): Promise<Map<string, Date>> {
+    const uniqueBlocks = [...new Set(blockNumbers.map(n => n.toString()))].map(n => BigInt(n));
+    const timestamps = new Map<string, Date>();
+
+    if (uniqueBlocks.length === 0) {
+      return timestamps;
+    }
+
+    const cachedHeaders = await prisma.blockHeader.findMany({
+      where: {
+        network,
+        blockNumber: { in: uniqueBlocks },
+      },
+      select: {
+        blockNumber: true,
+        timestamp: true,
+      },
+    });
+
+    for (const header of cachedHeaders) {
+      timestamps.set(header.blockNumber.toString(), header.timestamp);
+    }
+
+    const missingBlocks = uniqueBlocks.filter(n => !timestamps.has(n.toString()));
+    if (missingBlocks.length === 0) {
+      return timestamps;
+    }
+
+    console.log(`Fetching ${missingBlocks.length} block headers (${cachedHeaders.length} cached) for ${network}`);
+
+    const { BlockchainService } = await import('./blockchain');
+    const BLOCK_FETCH_CONCURRENCY = 10;
+
+    for (let i = 0; i < missingBlocks.length; i += BLOCK_FETCH_CONCURRENCY) {
+      const batch = missingBlocks.slice(i, i + BLOCK_FETCH_CONCURRENCY);
+      const blocks = await Promise.all(
+        batch.map(blockNumber => BlockchainService.getBlock(blockNumber, network))
+      );
+
+      const headers = blocks.map(block => ({
+        network,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        parentHash: block.parentHash,
+        timestamp: new Date(Number(block.timestamp) * 1000),
+      }));
+
+      await prisma.blockHeader.createMany({
+        data: headers,
+        skipDuplicates: true,
+      });
+
+      for (const header of headers) {
+        timestamps.set(header.blockNumber.toString(), header.timestamp);
+      }
+    }
+
+    return timestamps;
+  }
+
+  /**
+   * Fill in blockTimestamp for stored events that were indexed without one
+   */
+  static async backfillEventTimestamps(network?: string, maxBlocks: number = 200) {
+    const pendingBlocks = await prisma.event.findMany({
+      where: {
+        blockTimestamp: null,
+        ...(network && { network }),
+      },
+      distinct: ['network', 'blockNumber'],
+      select: {
+        network: true,
+        blockNumber: true,
+      },
+      orderBy: {
+        blockNumber: 'desc',
+      },
+      take: maxBlocks,
+    });
+
+    // Group pending blocks by network so each network resolves in one pass
+    const blocksByNetwork = new Map<string, bigint[]>();
+    for (const { network: blockNetwork, blockNumber } of pendingBlocks) {
+      const blocks = blocksByNetwork.get(blockNetwork) ?? [];
+      blocks.push(blockNumber);
+      blocksByNetwork.set(blockNetwork, blocks);
+    }
+
+    let updatedEvents = 0;
+    for (const [blockNetwork, blockNumbers] of blocksByNetwork) {
+      const timestamps = await this.resolveBlockTimestamps(blockNumbers, blockNetwork);
+
+      for (const blockNumber of blockNumbers) {
+        const timestamp = timestamps.get(blockNumber.toString());
+        if (!timestamp) continue;
+
+        const result = await prisma.event.updateMany({
+          where: {
+            network: blockNetwork,
+            blockNumber,
+            blockTimestamp: null,
+          },
+          data: { blockTimestamp: timestamp },
+        });
+        updatedEvents += result.count;
+      }
+    }
+
+    return {
+      blocksProcessed: pendingBlocks.length,
+      updatedEvents,
+    };
+  }
+
+  /**
+   * Decode args against the contract ABI for events stored before args were decoded at
+   * ingestion, so argument filters cover them. Logs that don't decode are stored as JSON
+   * null and not retried.
+   */
+  static async backfillEventArgs(network?: string, maxEvents: number = 500) {
+    const pendingEvents = await prisma.event.findMany({
+      where: {
+        args: { equals: Prisma.DbNull },
+        ...(network && { network }),
+      },
+      select: {
+        id: true,
+        eventName: true,
+        anonymous: true,
+        indexedParams: true,
+        data: true,
+        contract: { select: { abi: true } },
+      },
+      take: maxEvents,
+    });
+
+    let decodedEvents = 0;
+    for (const event of pendingEvents) {
+      const abi = event.contract.abi as unknown as Abi;
+      const log = {
+        topics: (Array.isArray(event.indexedParams) ? event.indexedParams : []) as Hex[],
+        data: (typeof event.data === 'string' ? event.data : '0x') as Hex,
+      };
+      const abiEvent = event.anonymous ? EventDecoder.findAnonymousEvent(abi, event.eventName) : undefined;
+      const decodedArgs = event.anonymous && !abiEvent ? null : EventDecoder.decodeLog(abi, log, abiEvent);
+
+      await prisma.event.update({
+        where: { id: event.id },
+        data: { args: decodedArgs ? (decodedArgs as unknown as Prisma.InputJsonValue) : Prisma.JsonNull },
+      });
+      if (decodedArgs) decodedEvents += 1;
+    }
+
+    return {
+      eventsProcessed: pendingEvents.length,
+      decodedEvents,
+    };
   }
 
   static async getEventStats(contractAddress: string) {
+    contractAddress = normalizeAddress(contractAddress);
+
     const [totalEvents, eventTypes, blockRange] = await Promise.all([
       // Total events count
       prisma.event.count({
@@ -139,12 +416,15 @@ export class DatabaseService {
     };
   }
 
+  // errorCount and lastError are maintained by GapService from the contract's open gaps
   static async updateIndexingStatus(
     contractAddress: string, 
     network: string, 
     lastIndexedBlock: bigint
   ) {
-    return await prisma.indexingStatus.upsert({
+    contractAddress = normalizeAddress(contractAddress);
+
+    const status = await prisma.indexingStatus.upsert({
       where: {
         contractAddress_network: {
           contractAddress,
@@ -154,8 +434,6 @@ export class DatabaseService {
       update: {
         lastIndexedBlock,
         lastIndexedAt: new Date(),
-        errorCount: 0,
-        lastError: null,
       },
       create: {
         contractAddress,
@@ -164,13 +442,25 @@ export class DatabaseService {
         lastIndexedAt: new Date(),
       },
     });
+
+    SubscriptionService.publishStatus(status);
+    return status;
+  }
+
+  static async getActiveContracts() {
+    return await prisma.contract.findMany({
+      where: { isActive: true },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
   }
 
   static async getIndexingStatus(contractAddress: string, network: string) {
     return await prisma.indexingStatus.findUnique({
       where: {
         contractAddress_network: {
-          contractAddress,
+          contractAddress: normalizeAddress(contractAddress),
           network,
         },
       },
@@ -198,7 +488,7 @@ export class DatabaseService {
 
     return await prisma.event.findMany({
       where: {
-        ...(contractAddress && { contractAddress }),
+        ...(contractAddress && { contractAddress: normalizeAddress(contractAddress) }),
         ...(eventName && { eventName }),
         ...(network && { network }),
         ...(fromBlock && { blockNumber: { gte: fromBlock } }),
@@ -228,10 +518,12 @@ export class DatabaseService {
   }
 
   static async getContract(address: string, network: string) {
-    return await prisma.contract.findFirst({
+    return await prisma.contract.findUnique({
       where: {
-        address,
-        network,
+        address_network: {
+          address: normalizeAddress(address),
+          network,
+        },
       },
     });
   }
@@ -246,36 +538,50 @@ export class DatabaseService {
     filters: {
       contractAddress?: string;
       eventName?: string;
+      // Any of these event names
+      eventNames?: string[];
       network?: string;
       fromBlock?: string;
       toBlock?: string;
+      // Block time range; events whose timestamp isn't resolved yet are excluded
       fromDate?: string;
       toDate?: string;
+      // When the rows were stored by the indexer
+      indexedAt?: { from?: string; to?: string };
+      anonymous?: boolean;
+      status?: string;
+      // Conditions on decoded argument values
+      args?: ArgFilter[];
     };
-    limit: number;
-    offset: number;
+    page: EventPageRequest;
   }) {
-    const { filters, limit, offset } = options;
+    const { filters, page } = options;
     
-    const where: {
-      contractAddress?: string;
-      eventName?: string;
-      network?: string;
-      blockNumber?: { gte?: bigint; lte?: bigint };
-      createdAt?: { gte?: Date; lte?: Date };
-    } = {};
+    const where: EventWhere = {};
     
     if (filters.contractAddress) {
-      where.contractAddress = filters.contractAddress.toLowerCase(); // Ensure lowercase for matching
+      where.contractAddress = normalizeAddress(filters.contractAddress);
     }
     
     if (filters.eventName) {
       where.eventName = filters.eventName;
     }
+
+    if (filters.eventNames?.length) {
+      where.eventNames = filters.eventNames;
+    }
     
     if (filters.network) {
       where.network = filters.network;
     }
+
+    if (filters.anonymous != null) {
+      where.anonymous = filters.anonymous;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
     
     if (filters.fromBlock) {
       where.blockNumber = { gte: BigInt(filters.fromBlock) };
@@ -290,39 +596,87 @@ export class DatabaseService {
     }
     
     if (filters.fromDate) {
-      where.createdAt = { gte: new Date(filters.fromDate) };
+      where.blockTimestamp = { gte: new Date(filters.fromDate) };
     }
     
     if (filters.toDate) {
-      if (where.createdAt) {
-        where.createdAt.lte = new Date(filters.toDate);
+      if (where.blockTimestamp) {
+        where.blockTimestamp.lte = new Date(filters.toDate);
       } else {
-        where.createdAt = { lte: new Date(filters.toDate) };
+        where.blockTimestamp = { lte: new Date(filters.toDate) };
       }
     }
 
-    const [events, totalCount] = await Promise.all([
-      prisma.event.findMany({
-        where,
-        orderBy: {
-          blockNumber: 'desc',
-        },
-        take: limit,
-        skip: offset,
-        include: {
-          contract: true,
-        },
-      }),
-      prisma.event.count({ where }),
-    ]);
+    if (filters.indexedAt?.from || filters.indexedAt?.to) {
+      where.createdAt = {
+        ...(filters.indexedAt.from && { gte: new Date(filters.indexedAt.from) }),
+        ...(filters.indexedAt.to && { lte: new Date(filters.indexedAt.to) }),
+      };
+    }
+
+    // Argument filters are JSONB conditions Prisma can't express, so pages are selected in SQL
+    return await this.queryEventPage(
+      [...eventWhereSql(where), ...ArgFilterService.toSql(filters.args ?? [])],
+      page
+    );
+  }
+
+  /**
+   * One page of events matching the conditions in the page's order, newest first by default.
+   * Pages are keyed on the sort values of the cursor's event instead of an offset, so events
+   * inserted while paging don't shift them. The total is only counted when countTotal is called.
+   */
+  static async queryEventPage(conditions: Prisma.Sql[], page: EventPageRequest) {
+    const cursorCondition = PaginationService.cursorSql(page);
+    const pageConditions = cursorCondition ? [...conditions, cursorCondition] : conditions;
+
+    const whereSql = (parts: Prisma.Sql[]) => parts.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(parts, ' AND ')}`
+      : Prisma.empty;
+    // Sort values as text, to build each event's cursor
+    const sortValues = Prisma.join(page.order.map((term, i) => Prisma.sql`(${term.sql})::text AS ${Prisma.raw(`"v${i}"`)}`));
+
+    // One extra row tells whether another page follows
+    const rows = await prisma.$queryRaw<({ id: string } & Record<string, string | null>)[]>`
+      SELECT "id", ${sortValues} FROM "Event" ${whereSql(pageConditions)}
+      ORDER BY ${PaginationService.orderBySql(page)}
+      LIMIT ${page.size + 1}
+    `;
+
+    const hasMore = rows.length > page.size;
+    const pageRows = rows.slice(0, page.size);
+    if (page.direction === 'backward') pageRows.reverse();
+
+    const found = await prisma.event.findMany({
+      where: { id: { in: pageRows.map(row => row.id) } },
+      include: {
+        contract: true,
+      },
+    });
+    const byId = new Map(found.map(event => [event.id, event]));
+    const edges = pageRows.flatMap(row => {
+      const node = byId.get(row.id);
+      if (!node) return [];
+      const cursor = PaginationService.encodeCursor(page.order, page.order.map((_, i) => row[`v${i}`]));
+      return [{ cursor, node }];
+    });
 
-    return { events, totalCount };
+    return {
+      edges,
+      pageInfo: PaginationService.pageInfo(page, edges.map(edge => edge.cursor), hasMore),
+      countTotal: async () => {
+        const [{ totalCount }] = await prisma.$queryRaw<{ totalCount: number }[]>`
+          SELECT COUNT(*)::int AS "totalCount" FROM "Event" ${whereSql(conditions)}
+        `;
+        return totalCount;
+      },
+    };
   }
 
   static async getIndexingStatuses(contractAddress?: string, network?: string) {
     return await prisma.indexingStatus.findMany({
       where: {
-        ...(contractAddress && { contractAddress }),
+        ...(contractAddress && { contractAddress: normalizeAddress(contractAddress) }),
         ...(network && { network }),
       },
       orderBy: {
@@ -335,7 +689,7 @@ export class DatabaseService {
     const eventTypes = await prisma.event.groupBy({
       by: ['eventName'],
       where: {
-        ...(contractAddress && { contractAddress: contractAddress.toLowerCase() }),
+        ...(contractAddress && { contractAddress: normalizeAddress(contractAddress) }),
         ...(network && { network }),
       },
     });
@@ -351,9 +705,7 @@ export class DatabaseService {
       network?: string;
       fromBlock?: bigint;
       toBlock?: bigint;
-      limit?: number;
-      offset?: number;
-      orderBy?: 'asc' | 'desc';
+      page?: EventPageRequest;
     } = {}
   ) {
     const {
@@ -361,18 +713,11 @@ export class DatabaseService {
       network,
       fromBlock,
       toBlock,
-      limit = 100,
-      offset = 0,
-      orderBy = 'desc'
+      page = PaginationService.parse({ first: 100 })
     } = options;
 
-    const where: {
-      contractAddress?: string;
-      eventName?: string;
-      network?: string;
-      blockNumber?: { gte?: bigint; lte?: bigint };
-    } = {
-      ...(contractAddress && { contractAddress: contractAddress.toLowerCase() }), // Ensure lowercase
+    const where: EventWhere = {
+      ...(contractAddress && { contractAddress: normalizeAddress(contractAddress) }),
       ...(eventName && { eventName }),
       ...(network && { network }),
     };
@@ -389,22 +734,7 @@ export class DatabaseService {
       }
     }
 
-    const [events, totalCount] = await Promise.all([
-      prisma.event.findMany({
-        where,
-        orderBy: {
-          blockNumber: orderBy,
-        },
-        take: limit,
-        skip: offset,
-        include: {
-          contract: true,
-        },
-      }),
-      prisma.event.count({ where }),
-    ]);
-
-    return { events, totalCount };
+    return await this.queryEventPage(eventWhereSql(where), page);
   }
 
   // Smart range detection - finds latest event block and creates optimal range
@@ -412,10 +742,9 @@ export class DatabaseService {
     contractAddress: string;
     network: string;
     eventName?: string;
-    limit: number;
-    offset: number;
+    page: EventPageRequest;
   }) {
-    const { contractAddress, network, eventName, limit, offset } = options;
+    const { contractAddress, network, eventName, page } = options;
     
     // First, find the latest block number where events occurred for this contract
     const baseWhere: {
@@ -423,7 +752,7 @@ export class DatabaseService {
       network: string;
       eventName?: string;
     } = {
-      contractAddress,
+      contractAddress: normalizeAddress(contractAddress),
       network,
     };
     
@@ -488,24 +817,13 @@ export class DatabaseService {
       },
     };
     
-    const [events, totalCount] = await Promise.all([
-      prisma.event.findMany({
-        where,
-        skip: offset,
-        take: limit,
-        orderBy: [
-          { blockNumber: 'desc' },
-          { logIndex: 'desc' },
-        ],
-        include: {
-          contract: true,
-        },
-      }),
-      prisma.event.count({ where }),
-    ]);
+    // The range spans at most 1000 blocks, so its total is always counted for rangeInfo
+    const { edges, pageInfo, countTotal } = await this.queryEventPage(eventWhereSql(where), page);
+    const totalCount = await countTotal();
     
     return {
-      events,
+      edges,
+      pageInfo,
       totalCount,
       rangeInfo: {
         fromBlock: fromBlock.toString(),
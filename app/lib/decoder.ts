@@ -0,0 +1,181 @@
+import { decodeAbiParameters, decodeEventLog, toEventSelector, Abi, AbiEvent, AbiParameter, Hex } from 'viem';
+
+// A single decoded event argument as persisted in Event.args
+export interface DecodedArg {
+  position: number;
+  type: string;
+  indexed: boolean;
+  // Indexed dynamic types (string, bytes, tuples, arrays) only survive as keccak256 hashes in topics
+  hashed: boolean;
+  value: unknown;
+}
+
+export type DecodedArgs = Record<string, DecodedArg>;
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// Convert BigInt values to strings and normalize addresses to lowercase
+const normalizeValue = (value: unknown): unknown => {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (typeof value === 'string') {
+    return ADDRESS_PATTERN.test(value) ? value.toLowerCase() : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeValue(item));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      normalized[key] = normalizeValue(item);
+    }
+    return normalized;
+  }
+
+  return value;
+};
+
+// Mirrors viem's decodeTopic: these types are hashed when indexed
+const isHashedWhenIndexed = (type: string) =>
+  type === 'string' ||
+  type === 'bytes' ||
+  type === 'tuple' ||
+  /^(.*)\[(\d+)?\]$/.test(type);
+
+// Solidity type including tuple components, e.g. "(address,uint256)[]"
+const formatSolidityType = (param: AbiParameter): string => {
+  if (!param.type.startsWith('tuple') || !('components' in param)) {
+    return param.type;
+  }
+  const components = param.components.map(formatSolidityType).join(',');
+  return `(${components})${param.type.slice('tuple'.length)}`;
+};
+
+export class EventDecoder {
+  /**
+   * Find the ABI event whose selector matches topic0 of the log
+   */
+  static findEvent(abi: Abi, topics: readonly Hex[]): AbiEvent | undefined {
+    const [signature] = topics;
+    if (!signature) return undefined;
+
+    return abi.find((item): item is AbiEvent => {
+      // Anonymous events have no selector in topic0
+      if (item.type !== 'event' || item.anonymous) return false;
+      try {
+        return toEventSelector(item) === signature;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Find an anonymous ABI event by name; logs are matched to these by topic filters
+   */
+  static findAnonymousEvent(abi: Abi, name: string): AbiEvent | undefined {
+    return abi.find((item): item is AbiEvent =>
+      item.type === 'event' && Boolean(item.anonymous) && item.name === name
+    );
+  }
+
+  /**
+   * Decode an anonymous event. Without a selector its indexed parameters start at topic0.
+   */
+  private static decodeAnonymousLog(abiEvent: AbiEvent, log: { topics: readonly Hex[]; data: Hex }) {
+    const indexedCount = abiEvent.inputs.filter(input => input.indexed).length;
+    if (log.topics.length !== indexedCount) {
+      throw new Error(`Expected ${indexedCount} topics for anonymous event ${abiEvent.name}, got ${log.topics.length}`);
+    }
+
+    const dataValues = decodeAbiParameters(abiEvent.inputs.filter(input => !input.indexed), log.data);
+    const values: Record<string | number, unknown> = {};
+    let topicIndex = 0;
+    let dataIndex = 0;
+
+    abiEvent.inputs.forEach((input, position) => {
+      let value: unknown;
+      if (input.indexed) {
+        const topic = log.topics[topicIndex++];
+        value = isHashedWhenIndexed(input.type) ? topic : decodeAbiParameters([input], topic)[0];
+      } else {
+        value = dataValues[dataIndex++];
+      }
+
+      values[position] = value;
+      if (input.name) values[input.name] = value;
+    });
+
+    return values;
+  }
+
+  /**
+   * Decode a raw log against an ABI into named, typed and JSON-safe arguments. Pass the
+   * ABI event explicitly for anonymous events, which can't be found by topic0.
+   * Returns null when no ABI event matches the log or the payload cannot be decoded.
+   */
+  static decodeLog(abi: Abi, log: { topics: readonly Hex[]; data: Hex }, event?: AbiEvent): DecodedArgs | null {
+    const abiEvent = event ?? this.findEvent(abi, log.topics);
+    if (!abiEvent) return null;
+
+    try {
+      let values: Record<string | number, unknown>;
+
+      if (abiEvent.anonymous) {
+        values = this.decodeAnonymousLog(abiEvent, log);
+      } else {
+        const { args } = decodeEventLog({
+          abi: [abiEvent],
+          topics: log.topics as [Hex, ...Hex[]],
+          data: log.data,
+          strict: false,
+        });
+        values = (args ?? {}) as Record<string | number, unknown>;
+      }
+
+      const decoded: DecodedArgs = {};
+
+      abiEvent.inputs.forEach((input, position) => {
+        const key = input.name || `arg${position}`;
+        const raw = input.name && input.name in values ? values[input.name] : values[position];
+        const indexed = Boolean(input.indexed);
+
+        decoded[key] = {
+          position,
+          type: formatSolidityType(input),
+          indexed,
+          hashed: indexed && isHashedWhenIndexed(input.type),
+          value: raw === undefined ? null : normalizeValue(raw),
+        };
+      });
+
+      return decoded;
+    } catch (error) {
+      console.warn(`Failed to decode log for event ${abiEvent.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Flatten stored args into an ordered list for the GraphQL layer
+   */
+  static toList(args: unknown) {
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      return null;
+    }
+
+    return Object.entries(args as DecodedArgs)
+      .sort(([, a], [, b]) => a.position - b.position)
+      .map(([name, arg]) => ({
+        name,
+        type: arg.type,
+        indexed: arg.indexed,
+        hashed: arg.hashed,
+        value: typeof arg.value === 'string' ? arg.value : JSON.stringify(arg.value),
+      }));
+  }
+}
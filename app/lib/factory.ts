@@ -0,0 +1,124 @@
+import { isAddress } from 'viem';
+import { prisma, normalizeAddress } from './database';
+import type { ABIItem, ABIEvent } from './indexer';
+import type { DecodedArgs } from './decoder';
+import { Prisma, type Contract } from '../generated/prisma';
+
+export interface FactoryConfig {
+  // Factory event announcing a new child, e.g. PairCreated
+  eventName: string;
+  // Decoded argument holding the child address; unnamed parameters are argN
+  childAddressArg: string;
+  childAbi: ABIItem[];
+  // Child events to index; empty tracks every event in the child ABI
+  childEventsToTrack?: string[];
+}
+
+// A stored factory log, decoded against the factory ABI
+interface FactoryLog {
+  eventName: string;
+  blockNumber: bigint | null;
+  decodedArgs?: DecodedArgs | null;
+}
+
+// Child contracts discovered from factory events and registered for indexing
+export class FactoryService {
+  /**
+   * Validate a factory configuration against the factory ABI. Returns an error message, or null when valid.
+   */
+  static validateFactoryConfig(config: FactoryConfig, abi: ABIItem[]): string | null {
+    const factoryEvent = abi.find(item => item.type === 'event' && item.name === config.eventName) as ABIEvent | undefined;
+    if (!factoryEvent) {
+      return `Factory event "${config.eventName}" is not an event in the ABI`;
+    }
+
+    const inputs = factoryEvent.inputs ?? [];
+    const childInput = inputs.find((input, position) => (input.name || `arg${position}`) === config.childAddressArg);
+    if (!childInput) {
+      return `Factory event ${config.eventName} has no argument "${config.childAddressArg}"`;
+    }
+    if (childInput.type !== 'address') {
+      return `Factory argument "${config.childAddressArg}" must be an address, got ${childInput.type}`;
+    }
+
+    if (!Array.isArray(config.childAbi) || !config.childAbi.some(item => item.type === 'event')) {
+      return 'Child ABI must be a JSON ABI with at least one event';
+    }
+
+    const missingEvents = (config.childEventsToTrack ?? []).filter(name =>
+      !config.childAbi.some(item => item.type === 'event' && item.name === name)
+    );
+    if (missingEvents.length > 0) {
+      return `No matching events found in child ABI for: ${missingEvents.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Store a factory configuration on a registered contract
+   */
+  static async configureFactory(contractId: string, config: FactoryConfig) {
+    return await prisma.contract.update({
+      where: { id: contractId },
+      data: {
+        factoryEvent: config.eventName,
+        factoryChildArg: config.childAddressArg,
+        childAbi: config.childAbi as unknown as Prisma.InputJsonValue,
+        childTrackedEvents: config.childEventsToTrack ?? [],
+      },
+    });
+  }
+
+  /**
+   * Register the children announced by a factory's logs. Each child starts indexing at its
+   * creation block; children that are already registered are left as they are.
+   */
+  static async registerChildren(factory: Contract, logs: FactoryLog[]) {
+    if (!factory.factoryEvent || !factory.factoryChildArg || !factory.childAbi) return 0;
+
+    let registered = 0;
+
+    for (const log of logs) {
+      if (log.eventName !== factory.factoryEvent || log.blockNumber === null) continue;
+
+      const childAddress = log.decodedArgs?.[factory.factoryChildArg]?.value;
+      if (typeof childAddress !== 'string' || !isAddress(childAddress, { strict: false })) {
+        console.warn(`Factory ${factory.address} emitted ${log.eventName} without a child address in ${factory.factoryChildArg}`);
+        continue;
+      }
+
+      const address = normalizeAddress(childAddress);
+      const existing = await prisma.contract.findUnique({
+        where: { address_network: { address, network: factory.network } },
+      });
+      if (existing) continue;
+
+      await prisma.contract.create({
+        data: {
+          address,
+          abi: factory.childAbi as Prisma.InputJsonValue,
+          network: factory.network,
+          name: `Contract ${address.slice(0, 8)}...`,
+          trackedEvents: factory.childTrackedEvents,
+          parentId: factory.id,
+          creationBlock: log.blockNumber,
+          // The worker resumes after lastIndexedBlock, so the child is indexed from its creation block
+          lastIndexedBlock: log.blockNumber - BigInt(1),
+        },
+      });
+
+      registered += 1;
+      console.log(`Registered child contract ${address} of factory ${factory.address} at block ${log.blockNumber}`);
+    }
+
+    return registered;
+  }
+
+  static async getChildren(parentId: string) {
+    return await prisma.contract.findMany({
+      where: { parentId },
+      orderBy: { creationBlock: 'asc' },
+    });
+  }
+}
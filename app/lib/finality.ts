@@ -0,0 +1,85 @@
+import { prisma } from './database';
+import { BlockchainService } from './blockchain';
+import { ChainService } from './chains';
+
+export type EventStatus = 'pending' | 'confirmed' | 'finalized';
+
+export const EVENT_STATUSES: EventStatus[] = ['pending', 'confirmed', 'finalized'];
+
+// Highest confirmed and finalized blocks of a network at a given head
+export interface FinalityHeads {
+  head: bigint;
+  confirmedBlock: bigint;
+  finalizedBlock: bigint;
+}
+
+// Event finality from the chain's confirmation depth and the safe/finalized block tags
+export class FinalityService {
+  /**
+   * Resolve the confirmed and finalized heights. Nodes without the safe/finalized tags
+   * fall back to the chain's confirmation and finality depths.
+   */
+  static async getFinalityHeads(network: string, headBlock?: bigint): Promise<FinalityHeads> {
+    const chain = await ChainService.getChain(network);
+    if (!chain) {
+      throw new Error(`Unsupported network: ${network}`);
+    }
+
+    const client = await BlockchainService.createClient(network);
+    const head = headBlock ?? await client.getBlockNumber();
+
+    const tagBlock = async (blockTag: 'safe' | 'finalized') => {
+      try {
+        return (await client.getBlock({ blockTag })).number;
+      } catch {
+        return null;
+      }
+    };
+    const [safeBlock, finalizedTagBlock] = await Promise.all([tagBlock('safe'), tagBlock('finalized')]);
+
+    const depthBlock = head - BigInt(chain.confirmations);
+    const confirmedBlock = safeBlock !== null && safeBlock > depthBlock ? safeBlock : depthBlock;
+    const finalizedBlock = finalizedTagBlock ?? head - BigInt(chain.finalityDepth);
+
+    return {
+      head,
+      confirmedBlock,
+      // A finalized block is always confirmed
+      finalizedBlock: finalizedBlock < confirmedBlock ? finalizedBlock : confirmedBlock,
+    };
+  }
+
+  static statusFor(blockNumber: bigint, heads: FinalityHeads): EventStatus {
+    if (blockNumber <= heads.finalizedBlock) return 'finalized';
+    if (blockNumber <= heads.confirmedBlock) return 'confirmed';
+    return 'pending';
+  }
+
+  /**
+   * Promote stored events of a network that the chain has confirmed or finalized since they were indexed
+   */
+  static async promoteEvents(network: string, headBlock?: bigint) {
+    const heads = await this.getFinalityHeads(network, headBlock);
+
+    const [finalized, confirmed] = await prisma.$transaction([
+      prisma.event.updateMany({
+        where: {
+          network,
+          status: { in: ['pending', 'confirmed'] },
+          blockNumber: { lte: heads.finalizedBlock },
+        },
+        data: { status: 'finalized' },
+      }),
+      prisma.event.updateMany({
+        where: {
+          network,
+          status: 'pending',
+          blockNumber: { lte: heads.confirmedBlock },
+        },
+        data: { status: 'confirmed' },
+      }),
+    ]);
+
+    return { heads, finalized: finalized.count, confirmed: confirmed.count };
+  }
+}
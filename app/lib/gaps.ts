@@ -0,0 +1,214 @@
+import { prisma, DatabaseService, normalizeAddress } from './database';
+import { SubscriptionService } from './subscriptions';
+import type { ABIItem, TopicFilter } from './indexer';
+import { Prisma, type IndexingGap } from '../generated/prisma';
+
+// Open gaps are retried with exponential backoff, capped so they are never abandoned
+const GAP_RETRY_BASE_DELAY_MS = 60 * 1000;
+const GAP_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Gaps retried per call so a large backlog doesn't starve the rest of the worker loop
+const GAP_RETRY_BATCH_SIZE = 10;
+
+export type GapStatus = 'open' | 'resolved';
+
+// A block range whose logs could not be fetched
+export interface FailedRange {
+  eventNames: string[];
+  // Set when the range failed for raw topic filters rather than named events
+  topicFilters?: TopicFilter[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  error: string;
+}
+
+const nextRetryAt = (attempts: number) => {
+  const delay = Math.min(GAP_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), GAP_RETRY_MAX_DELAY_MS);
+  return new Date(Date.now() + delay);
+};
+
+// Durable record of block ranges that failed to index, retried until they succeed
+export class GapService {
+  static async recordGaps(
+    contractAddress: string,
+    network: string,
+    ranges: FailedRange[],
+    // Pass a transaction client to record gaps atomically with the stored events
+    client: Prisma.TransactionClient = prisma
+  ) {
+    if (ranges.length === 0) return 0;
+
+    const result = await client.indexingGap.createMany({
+      data: ranges.map(range => ({
+        contractAddress: normalizeAddress(contractAddress),
+        network,
+        eventNames: range.eventNames,
+        ...(range.topicFilters && { topicFilters: range.topicFilters as unknown as Prisma.InputJsonValue }),
+        fromBlock: range.fromBlock,
+        toBlock: range.toBlock,
+        error: range.error,
+        nextRetryAt: nextRetryAt(1),
+      })),
+    });
+
+    console.warn(`Recorded ${result.count} indexing gaps for ${contractAddress} (${network})`);
+    return result.count;
+  }
+
+  static async getGaps(contractAddress: string, network: string, includeResolved: boolean = false) {
+    return await prisma.indexingGap.findMany({
+      where: {
+        contractAddress: normalizeAddress(contractAddress),
+        network,
+        ...(!includeResolved && { status: 'open' }),
+      },
+      orderBy: { fromBlock: 'asc' },
+    });
+  }
+
+  /**
+   * Open gaps overlapping a block range
+   */
+  static async getOpenGapsInRange(contractAddress: string, network: string, fromBlock: bigint, toBlock: bigint) {
+    return await prisma.indexingGap.findMany({
+      where: {
+        contractAddress: normalizeAddress(contractAddress),
+        network,
+        status: 'open',
+        fromBlock: { lte: toBlock },
+        toBlock: { gte: fromBlock },
+      },
+      orderBy: { fromBlock: 'asc' },
+    });
+  }
+
+  /**
+   * Mirror open gaps into IndexingStatus: errorCount is the number of open gaps
+   * and lastError the error of the most recent one
+   */
+  static async syncIndexingStatus(contractAddress: string, network: string) {
+    contractAddress = normalizeAddress(contractAddress);
+    const where = { contractAddress, network, status: 'open' };
+
+    const [errorCount, latestGap] = await Promise.all([
+      prisma.indexingGap.count({ where }),
+      prisma.indexingGap.findFirst({
+        where,
+        orderBy: { updatedAt: 'desc' },
+      }),
+    ]);
+
+    await prisma.indexingStatus.updateMany({
+      where: { contractAddress, network },
+      data: {
+        errorCount,
+        lastError: latestGap?.error ?? null,
+      },
+    });
+
+    const status = await prisma.indexingStatus.findUnique({
+      where: { contractAddress_network: { contractAddress, network } },
+    });
+    if (status) SubscriptionService.publishStatus(status);
+  }
+
+  /**
+   * Re-index a gap's range and resolve it, or push its next retry back
+   */
+  static async retryGap(gap: IndexingGap) {
+    // Loaded lazily since the indexer records gaps through this service
+    const { IndexerService } = await import('./indexer');
+
+    let error: string | null = null;
+
+    try {
+      const contract = await DatabaseService.getContract(gap.contractAddress, gap.network);
+      if (!contract) {
+        throw new Error(`Contract ${gap.contractAddress} is not registered on ${gap.network}`);
+      }
+
+      const abi = contract.abi as unknown as ABIItem[];
+      const topicFilters = (gap.topicFilters ?? []) as unknown as TopicFilter[];
+      const { eventSignatures } = IndexerService.resolveTracking(abi, gap.eventNames, topicFilters);
+
+      const result = await IndexerService.indexRange({
+        contractAddress: gap.contractAddress as `0x${string}`,
+        abi,
+        eventSignatures,
+        topicFilters,
+        network: gap.network,
+        fromBlock: gap.fromBlock,
+        toBlock: gap.toBlock,
+        contractName: contract.name ?? undefined,
+        recordGaps: false,
+      });
+
+      if (result.gaps.length > 0) {
+        error = result.gaps[0].error;
+      } else if (result.database.status === 'error') {
+        error = 'Failed to store events for gap';
+      }
+    } catch (retryError) {
+      error = retryError instanceof Error ? retryError.message : 'Unknown error occurred';
+    }
+
+    const attempts = gap.attempts + 1;
+    const updated = await prisma.indexingGap.update({
+      where: { id: gap.id },
+      data: error === null
+        ? { status: 'resolved', attempts, resolvedAt: new Date() }
+        : { attempts, error, nextRetryAt: nextRetryAt(attempts) },
+    });
+
+    if (error === null) {
+      console.log(`Resolved indexing gap ${gap.fromBlock}-${gap.toBlock} for ${gap.contractAddress} (${gap.network})`);
+    } else {
+      console.warn(`Indexing gap ${gap.fromBlock}-${gap.toBlock} for ${gap.contractAddress} failed again (attempt ${attempts}):`, error);
+    }
+
+    await this.syncIndexingStatus(gap.contractAddress, gap.network);
+    return updated;
+  }
+
+  /**
+   * Retry open gaps whose backoff has elapsed
+   */
+  static async retryDueGaps(limit: number = GAP_RETRY_BATCH_SIZE) {
+    const gaps = await prisma.indexingGap.findMany({
+      where: {
+        status: 'open',
+        nextRetryAt: { lte: new Date() },
+      },
+      orderBy: { nextRetryAt: 'asc' },
+      take: limit,
+    });
+
+    let resolved = 0;
+    for (const gap of gaps) {
+      const result = await this.retryGap(gap);
+      if (result.status === 'resolved') resolved += 1;
+    }
+
+    return { attempted: gaps.length, resolved };
+  }
+
+  /**
+   * Serialize a gap for the REST and GraphQL layers
+   */
+  static formatGap(gap: IndexingGap) {
+    return {
+      id: gap.id,
+      contractAddress: gap.contractAddress,
+      network: gap.network,
+      eventNames: gap.eventNames,
+      fromBlock: gap.fromBlock.toString(),
+      toBlock: gap.toBlock.toString(),
+      status: gap.status,
+      error: gap.error,
+      attempts: gap.attempts,
+      nextRetryAt: gap.status === 'open' ? gap.nextRetryAt.toISOString() : null,
+      resolvedAt: gap.resolvedAt?.toISOString() ?? null,
+      createdAt: gap.createdAt.toISOString(),
+    };
+  }
+}
@@ -8,6 +8,9 @@ export const GET_CONTRACTS = gql`
       address
       name
       network
+      trackedEvents
+      isActive
+      lastIndexedBlock
       createdAt
       updatedAt
     }
@@ -25,12 +28,39 @@ export const GET_CONTRACT = gql`
       abi {
         type
         name
+        anonymous
         inputs {
           type
           name
+          internalType
           indexed
+          # Two levels of tuple nesting; request deeper levels explicitly if needed
+          components {
+            type
+            name
+            internalType
+            components {
+              type
+              name
+              internalType
+            }
+          }
         }
       }
+      factoryEvent
+      factoryChildArg
+      creationBlock
+      parent {
+        id
+        address
+        name
+      }
+      children {
+        id
+        address
+        name
+        creationBlock
+      }
       createdAt
       updatedAt
     }
@@ -39,35 +69,49 @@ export const GET_CONTRACT = gql`
 
 // Query to get events with filtering and pagination
 export const GET_EVENTS = gql`
-  query GetEvents($filters: EventFilters, $pagination: PaginationInput) {
-    getEvents(filters: $filters, pagination: $pagination) {
-      events {
-        id
-        blockNumber
-        blockHash
-        blockTimestamp
-        transactionHash
-        transactionIndex
-        logIndex
-        contractAddress
-        eventName
-        eventSignature
-        indexedParams
-        data
-        network
-        createdAt
-        contract {
+  query GetEvents($filters: EventFilters, $orderBy: [EventOrderByInput!], $first: Int, $after: String, $last: Int, $before: String) {
+    getEvents(filters: $filters, orderBy: $orderBy, first: $first, after: $after, last: $last, before: $before) {
+      edges {
+        cursor
+        node {
           id
-          address
-          name
+          blockNumber
+          blockHash
+          blockTimestamp
+          transactionHash
+          transactionIndex
+          logIndex
+          contractAddress
+          eventName
+          eventSignature
+          anonymous
+          status
+          indexedParams
+          data
+          decodedArgs {
+            name
+            type
+            indexed
+            hashed
+            value
+          }
           network
+          createdAt
+          contract {
+            id
+            address
+            name
+            network
+          }
         }
       }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
       totalCount
-      hasNextPage
-      hasPreviousPage
-      currentPage
-      totalPages
     }
   }
 `;
@@ -78,34 +122,49 @@ export const GET_EVENTS_BY_CONTRACT = gql`
     $contractAddress: String!
     $network: String!
     $eventName: String
-    $pagination: PaginationInput
+    $orderBy: [EventOrderByInput!]
+    $first: Int
+    $after: String
+    $last: Int
+    $before: String
   ) {
     getEventsByContract(
       contractAddress: $contractAddress
       network: $network
       eventName: $eventName
-      pagination: $pagination
+      orderBy: $orderBy
+      first: $first
+      after: $after
+      last: $last
+      before: $before
     ) {
-      events {
-        id
-        blockNumber
-        blockHash
-        transactionHash
-        transactionIndex
-        logIndex
-        eventName
-        eventSignature
-        indexedParams
-        data
-        rawLog
-        network
-        createdAt
+      edges {
+        cursor
+        node {
+          id
+          blockNumber
+          blockHash
+          transactionHash
+          transactionIndex
+          logIndex
+          eventName
+          eventSignature
+          anonymous
+          status
+          indexedParams
+          data
+          rawLog
+          network
+          createdAt
+        }
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
       }
       totalCount
-      hasNextPage
-      hasPreviousPage
-      currentPage
-      totalPages
     }
   }
 `;
@@ -118,7 +177,10 @@ export const GET_INDEXING_STATUS = gql`
       contractAddress
       network
       lastIndexedBlock
+      lastIndexedAt
       isActive
+      errorCount
+      lastError
       createdAt
       updatedAt
     }
@@ -142,14 +204,16 @@ export const GET_OVERVIEW_STATS = gql`
       network
       createdAt
     }
-    getEvents(pagination: { limit: 5 }) {
+    getEvents(first: 5) {
       totalCount
-      events {
-        id
-        eventName
-        contractAddress
-        blockNumber
-        createdAt
+      edges {
+        node {
+          id
+          eventName
+          contractAddress
+          blockNumber
+          createdAt
+        }
       }
     }
   }
@@ -168,8 +232,17 @@ export const EVENT_FIELDS = gql`
     contractAddress
     eventName
     eventSignature
+    anonymous
+    status
     indexedParams
     data
+    decodedArgs {
+      name
+      type
+      indexed
+      hashed
+      value
+    }
     network
     createdAt
   }
@@ -193,31 +266,44 @@ export const GET_EVENTS_SMART_RANGE = gql`
     $contractAddress: String!
     $network: String!
     $eventName: String
-    $pagination: PaginationInput
+    $orderBy: [EventOrderByInput!]
+    $first: Int
+    $after: String
+    $last: Int
+    $before: String
   ) {
     getEventsSmartRange(
       contractAddress: $contractAddress
       network: $network
       eventName: $eventName
-      pagination: $pagination
+      orderBy: $orderBy
+      first: $first
+      after: $after
+      last: $last
+      before: $before
     ) {
-      events {
-        id
-        blockNumber
-        blockHash
-        blockTimestamp
-        transactionHash
-        transactionIndex
-        logIndex
-        contractId
-        contractAddress
-        eventName
-        eventSignature
-        indexedParams
-        data
-        rawLog
-        network
-        createdAt
+      edges {
+        cursor
+        node {
+          id
+          blockNumber
+          blockHash
+          blockTimestamp
+          transactionHash
+          transactionIndex
+          logIndex
+          contractId
+          contractAddress
+          eventName
+          eventSignature
+          anonymous
+          status
+          indexedParams
+          data
+          rawLog
+          network
+          createdAt
+        }
       }
       rangeInfo {
         fromBlock
@@ -227,11 +313,309 @@ export const GET_EVENTS_SMART_RANGE = gql`
         isOptimalRange
         message
       }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
       totalCount
-      hasNextPage
-      hasPreviousPage
-      currentPage
-      totalPages
     }
   }
 `;
+
+// Query to get an indexing job with progress
+export const GET_INDEXING_JOB = gql`
+  query GetIndexingJob($id: String!) {
+    indexingJob(id: $id) {
+      id
+      status
+      fromBlock
+      toBlock
+      totalBlocks
+      blocksProcessed
+      percentComplete
+      eventsFound
+      failedChunks
+      error
+      chunks {
+        id
+        fromBlock
+        toBlock
+        status
+        eventsFound
+        attempts
+        error
+      }
+      createdAt
+      startedAt
+      completedAt
+    }
+  }
+`;
+
+// Query to get supported networks
+export const GET_CHAINS = gql`
+  query GetChains($includeInactive: Boolean) {
+    chains(includeInactive: $includeInactive) {
+      id
+      chainId
+      name
+      rpcUrl
+      blockTime
+      confirmations
+      finalityDepth
+      isActive
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+// Mutation to register a new network
+export const REGISTER_CHAIN = gql`
+  mutation RegisterChain($input: ChainInput!) {
+    registerChain(input: $input) {
+      id
+      chainId
+      name
+      rpcUrl
+      blockTime
+      isActive
+    }
+  }
+`;
+
+// Mutation to update a registered network
+export const UPDATE_CHAIN = gql`
+  mutation UpdateChain($name: String!, $input: UpdateChainInput!) {
+    updateChain(name: $name, input: $input) {
+      id
+      chainId
+      name
+      rpcUrl
+      blockTime
+      isActive
+    }
+  }
+`;
+
+// Query to get failed block ranges for a contract
+export const GET_INDEXING_GAPS = gql`
+  query GetIndexingGaps($contractAddress: String!, $network: String!, $includeResolved: Boolean) {
+    indexingGaps(contractAddress: $contractAddress, network: $network, includeResolved: $includeResolved) {
+      id
+      eventNames
+      fromBlock
+      toBlock
+      status
+      error
+      attempts
+      nextRetryAt
+      resolvedAt
+      createdAt
+    }
+  }
+`;
+
+// Subscription to events as they are indexed
+export const EVENT_ADDED = gql`
+  subscription EventAdded($contractAddress: String, $network: String, $eventName: String) {
+    eventAdded(contractAddress: $contractAddress, network: $network, eventName: $eventName) {
+      id
+      blockNumber
+      blockHash
+      blockTimestamp
+      transactionHash
+      transactionIndex
+      logIndex
+      contractAddress
+      eventName
+      eventSignature
+      anonymous
+      status
+      indexedParams
+      data
+      decodedArgs {
+        name
+        type
+        indexed
+        hashed
+        value
+      }
+      network
+      createdAt
+      contract {
+        id
+        address
+        name
+        network
+      }
+    }
+  }
+`;
+
+// Subscription to indexing progress and errors
+export const INDEXING_STATUS_CHANGED = gql`
+  subscription IndexingStatusChanged($contractAddress: String, $network: String) {
+    indexingStatusChanged(contractAddress: $contractAddress, network: $network) {
+      id
+      contractAddress
+      network
+      lastIndexedBlock
+      lastIndexedAt
+      isActive
+      errorCount
+      lastError
+      updatedAt
+    }
+  }
+`;
+
+// Fragment of webhook fields
+export const WEBHOOK_FIELDS = gql`
+  fragment WebhookFields on Webhook {
+    id
+    url
+    contractAddress
+    network
+    eventNames
+    argFilters {
+      name
+      value
+    }
+    isActive
+    createdAt
+    updatedAt
+  }
+`;
+
+// Query to get registered webhooks
+export const GET_WEBHOOKS = gql`
+  query GetWebhooks {
+    webhooks {
+      ...WebhookFields
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// Query to get the delivery log of a webhook
+export const GET_WEBHOOK_DELIVERIES = gql`
+  query GetWebhookDeliveries($webhookId: String!, $status: String, $limit: Int) {
+    webhookDeliveries(webhookId: $webhookId, status: $status, limit: $limit) {
+      id
+      eventId
+      payload
+      status
+      attempts
+      nextAttemptAt
+      responseStatus
+      lastError
+      deliveredAt
+      createdAt
+    }
+  }
+`;
+
+// Mutation to register a webhook; the secret is only returned here
+export const CREATE_WEBHOOK = gql`
+  mutation CreateWebhook($input: WebhookInput!) {
+    createWebhook(input: $input) {
+      webhook {
+        ...WebhookFields
+      }
+      secret
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// Mutation to change a webhook's URL, secret, filters or activation
+export const UPDATE_WEBHOOK = gql`
+  mutation UpdateWebhook($id: String!, $input: UpdateWebhookInput!) {
+    updateWebhook(id: $id, input: $input) {
+      ...WebhookFields
+    }
+  }
+  ${WEBHOOK_FIELDS}
+`;
+
+// Fields of a rejected contract mutation
+export const MUTATION_ERROR_FIELDS = gql`
+  fragment MutationErrorFields on MutationError {
+    code
+    field
+    message
+  }
+`;
+
+// Mutation to register a contract without indexing it
+export const REGISTER_CONTRACT = gql`
+  mutation RegisterContract($input: RegisterContractInput!) {
+    registerContract(input: $input) {
+      contract {
+        id
+        address
+        network
+        trackedEvents
+        isActive
+      }
+      errors {
+        ...MutationErrorFields
+      }
+    }
+  }
+  ${MUTATION_ERROR_FIELDS}
+`;
+
+// Mutation to queue an indexing job for a registered contract
+export const START_INDEXING = gql`
+  mutation StartIndexing($input: StartIndexingInput!) {
+    startIndexing(input: $input) {
+      job {
+        id
+        status
+        fromBlock
+        toBlock
+        totalBlocks
+      }
+      message
+      errors {
+        ...MutationErrorFields
+      }
+    }
+  }
+  ${MUTATION_ERROR_FIELDS}
+`;
+
+// Mutations to stop and restart following the chain head for a contract
+export const PAUSE_CONTRACT = gql`
+  mutation PauseContract($address: String!, $network: String!) {
+    pauseContract(address: $address, network: $network) {
+      contract {
+        id
+        isActive
+      }
+      errors {
+        ...MutationErrorFields
+      }
+    }
+  }
+  ${MUTATION_ERROR_FIELDS}
+`;
+
+export const RESUME_CONTRACT = gql`
+  mutation ResumeContract($address: String!, $network: String!) {
+    resumeContract(address: $address, network: $network) {
+      contract {
+        id
+        isActive
+      }
+      errors {
+        ...MutationErrorFields
+      }
+    }
+  }
+  ${MUTATION_ERROR_FIELDS}
+`;
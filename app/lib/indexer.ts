@@ -0,0 +1,653 @@
+import { formatLog, numberToHex, toEventSelector, Abi, AbiEvent, Log, PublicClient } from 'viem';
+import { BlockchainService } from './blockchain';
+import { prisma, DatabaseService, normalizeAddress } from './database';
+import { EventDecoder } from './decoder';
+import { ReorgService, ReorgResult } from './reorg';
+import { GapService, FailedRange } from './gaps';
+import { BlockRangeService } from './block-range';
+import { FactoryService } from './factory';
+import { CheckpointService } from './checkpoints';
+import { FinalityService, FinalityHeads } from './finality';
+import { rpcErrorMessage } from './rpc-pool';
+import { SubscriptionService } from './subscriptions';
+import type { Contract, Event, Prisma } from '../generated/prisma';
+
+// Type definitions
+// Mirrors the Solidity JSON ABI so items can be handed to viem unchanged
+export interface ABIInput {
+  type: string;
+  // Empty or missing for unnamed parameters
+  name?: string;
+  internalType?: string;
+  indexed?: boolean;
+  // Members of tuple and tuple[] parameters, nested arbitrarily deep
+  components?: ABIInput[];
+}
+
+export interface ABIEvent {
+  type: string;
+  name: string;
+  inputs?: ABIInput[];
+  anonymous?: boolean;
+}
+
+export interface ABIItem {
+  type: string;
+  name?: string;
+  inputs?: ABIInput[];
+}
+
+export interface EventSignature {
+  name: string;
+  signature: ABIEvent;
+}
+
+// A topic position: one value, a list matching any of its values, or null as a wildcard
+export type TopicValue = `0x${string}` | `0x${string}`[] | null;
+
+// Raw eth_getLogs topic filter, for logs without a matching ABI event or for anonymous events
+export interface TopicFilter {
+  // topic0..topic3
+  topics: TopicValue[];
+  // ABI event used to decode matching logs; anonymous events can only be indexed this way
+  eventName?: string;
+}
+
+// Contract key of an "any address" subscription: logs are fetched without an address
+// filter and linked to a Contract row per emitter
+export const ANY_ADDRESS = '*';
+
+export interface IndexRangeOptions {
+  // Contract the range is indexed for; gaps and indexing status are keyed by it
+  contractAddress: string;
+  // Address list fetched together in one query, defaulting to contractAddress
+  addresses?: `0x${string}`[];
+  abi: ABIItem[];
+  eventSignatures: EventSignature[];
+  topicFilters?: TopicFilter[];
+  network: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+  currentBlock?: bigint;
+  contractName?: string;
+  trackedEvents?: string[];
+  // Gap retries pass false so a failed retry doesn't open a duplicate gap
+  recordGaps?: boolean;
+  // Delete the stored events the queries match in the fetched blocks, in the transaction that stores the new ones
+  replaceEvents?: boolean;
+}
+
+export interface IndexRangeResult {
+  logs: Log[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  // Last block fetched or recorded as a gap; the checkpoint advances to it
+  scannedToBlock: bigint;
+  database: {
+    status: string;
+    storedEvents: number;
+    contractId?: string;
+  };
+  reorg?: ReorgResult;
+  // Ranges that could not be fetched; recorded as gaps and retried by the worker
+  gaps: FailedRange[];
+}
+
+export interface FetchLogsOptions {
+  // One address, a list, or undefined to match logs from any emitter
+  address?: `0x${string}` | `0x${string}`[];
+  // Full contract ABI, used to route and decode logs matched by topic filters
+  abi: ABIItem[];
+  eventSignatures: EventSignature[];
+  topicFilters?: TopicFilter[];
+  network: string;
+  // Key for the learned block span, see BlockRangeService
+  provider: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// Indexer logs carry the tracked event they matched
+export type IndexedLog = Log & { eventName: string; anonymous?: boolean };
+
+export interface FetchLogsResult {
+  logs: IndexedLog[];
+  failedRanges: FailedRange[];
+}
+
+
+// Large ranges insert many events in the storage transaction
+const STORE_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+const TOPIC_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const MAX_TOPICS = 4;
+
+// Elementary type or tuple followed by any array suffixes, e.g. "uint256", "bytes32[]", "tuple[2][]"
+const ABI_TYPE_PATTERN = /^([a-z]+)(\d*)((\[\d*\])*)$/;
+
+// Check a JSON ABI parameter type, recursing into tuple components
+const isValidAbiParameter = (param: ABIInput): boolean => {
+  const match = param.type.match(ABI_TYPE_PATTERN);
+  if (!match) return false;
+
+  const [, baseType, size] = match;
+  const bits = size ? Number(size) : null;
+
+  switch (baseType) {
+    case 'tuple':
+      return bits === null && Array.isArray(param.components) && param.components.every(isValidAbiParameter);
+    case 'address':
+    case 'bool':
+    case 'string':
+      return bits === null;
+    case 'bytes':
+      return bits === null || (bits >= 1 && bits <= 32);
+    case 'int':
+    case 'uint':
+      return bits === null || (bits >= 8 && bits <= 256 && bits % 8 === 0);
+    default:
+      return false;
+  }
+};
+
+// A stored event matches a topic filter when each non-null position holds one of its values
+const topicFilterWhere = (filter: TopicFilter): Prisma.EventWhereInput => ({
+  AND: filter.topics.flatMap((topic, position) => topic === null ? [] : [{
+    OR: (Array.isArray(topic) ? topic : [topic]).map(value => ({
+      indexedParams: { path: [String(position)], equals: value.toLowerCase() },
+    })),
+  }]),
+});
+
+// Shared indexing pipeline used by the API route and the background worker
+export class IndexerService {
+  /**
+   * Extract event signatures from ABI. An empty list tracks every event in the ABI.
+   */
+  static extractEventSignatures(abi: ABIItem[], eventsToTrack: string[]): EventSignature[] {
+    const events = abi.filter((item): item is ABIEvent =>
+      item.type === 'event' &&
+      item.name !== undefined &&
+      (eventsToTrack.length === 0 || eventsToTrack.includes(item.name))
+    );
+
+    return events.map(event => ({
+      name: event.name,
+      signature: event
+    }));
+  }
+
+  /**
+   * The JSON ABI item as a viem event, so tuples, arrays and unnamed or reserved-word
+   * parameters reach the topic filter unchanged
+   */
+  static toAbiEvent(event: ABIEvent): AbiEvent {
+    return {
+      ...event,
+      inputs: event.inputs ?? [],
+    } as unknown as AbiEvent;
+  }
+
+  /**
+   * Whether every parameter of the event has a valid Solidity type
+   */
+  static isValidEventSignature(eventSig: EventSignature) {
+    return (eventSig.signature.inputs ?? []).every(isValidAbiParameter);
+  }
+
+  /**
+   * Named events and topic filters to index. An empty event list tracks every ABI event,
+   * unless topic filters were given on their own.
+   */
+  static resolveTracking(abi: ABIItem[], eventsToTrack: string[], topicFilters: TopicFilter[] = []) {
+    const eventSignatures = eventsToTrack.length === 0 && topicFilters.length > 0
+      ? []
+      : this.extractEventSignatures(abi, eventsToTrack);
+
+    return { eventSignatures, topicFilters };
+  }
+
+  /**
+   * Validate raw topic filters from a request. Returns an error message, or null when valid.
+   */
+  static validateTopicFilters(topicFilters: unknown, abi: ABIItem[]): string | null {
+    if (!Array.isArray(topicFilters)) {
+      return 'topicFilters must be an array';
+    }
+
+    for (const [index, filter] of topicFilters.entries()) {
+      const topics = (filter as TopicFilter)?.topics;
+      if (!Array.isArray(topics) || topics.length === 0 || topics.length > MAX_TOPICS) {
+        return `topicFilters[${index}].topics must list between 1 and ${MAX_TOPICS} topic positions`;
+      }
+
+      for (const topic of topics) {
+        const values = Array.isArray(topic) ? topic : [topic];
+        if (topic !== null && (values.length === 0 || !values.every(value => typeof value === 'string' && TOPIC_PATTERN.test(value)))) {
+          return `topicFilters[${index}] has an invalid topic: use a 32-byte hex string, a list of them, or null`;
+        }
+      }
+
+      const { eventName } = filter as TopicFilter;
+      if (eventName !== undefined && !abi.some(item => item.type === 'event' && item.name === eventName)) {
+        return `topicFilters[${index}].eventName "${eventName}" is not an event in the ABI`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetch one eth_getLogs query over a block range in adaptive batches. Ranges that fail
+   * are returned alongside the logs instead of being skipped.
+   */
+  private static async fetchInBatches(
+    options: Pick<FetchLogsOptions, 'network' | 'provider' | 'fromBlock' | 'toBlock'> & { label: string },
+    fetchBatch: (fromBlock: bigint, toBlock: bigint) => Promise<Log[]>
+  ) {
+    const { network, provider, fromBlock, toBlock, label } = options;
+    const logs: Log[] = [];
+    const failedRanges: { fromBlock: bigint; toBlock: bigint; error: string }[] = [];
+
+    let currentFromBlock = fromBlock;
+    let blockSpan = await BlockRangeService.getBlockSpan(network, provider);
+
+    while (currentFromBlock <= toBlock) {
+      const currentToBlock = currentFromBlock + BigInt(blockSpan) - BigInt(1);
+      const batchToBlock = currentToBlock > toBlock ? toBlock : currentToBlock;
+      console.log(`Fetching logs for ${label} from block ${currentFromBlock} to ${batchToBlock}`);
+
+      try {
+        const batchLogs = await fetchBatch(currentFromBlock, batchToBlock);
+
+        // Skip logs the node flags as removed by a reorg
+        logs.push(...batchLogs.filter(log => !log.removed));
+        console.log(`Found ${batchLogs.length} events in batch (${currentFromBlock} to ${batchToBlock})`);
+
+        // A short final batch says nothing about the span, so only full batches adjust it
+        if (batchToBlock === currentToBlock) {
+          blockSpan = await BlockRangeService.recordSuccess(network, provider, blockSpan, batchLogs.length);
+        }
+
+      } catch (batchError) {
+        // The provider rejected the range size: retry the same start block with a smaller span
+        const smallerSpan = await BlockRangeService.recordRejection(network, provider, blockSpan, batchError);
+        if (smallerSpan !== null) {
+          console.warn(`Range ${currentFromBlock}-${batchToBlock} rejected, retrying with ${smallerSpan} blocks`);
+          blockSpan = smallerSpan;
+          continue;
+        }
+
+        console.error(`Error fetching batch ${currentFromBlock}-${batchToBlock} for ${label}:`, batchError);
+        // Record the gap and continue with the next batch
+        failedRanges.push({
+          fromBlock: currentFromBlock,
+          toBlock: batchToBlock,
+          error: rpcErrorMessage(batchError),
+        });
+      }
+
+      // Rate limits are handled by the provider pool's backoff
+      currentFromBlock = batchToBlock + BigInt(1);
+    }
+
+    return { logs, failedRanges };
+  }
+
+  /**
+   * Fetch the logs of every tracked event with one eth_getLogs per block range, filtering on
+   * an OR of their topic0 hashes, plus one query per raw topic filter, and route each log
+   * back to its ABI item
+   */
+  static async fetchLogs(client: PublicClient, options: FetchLogsOptions): Promise<FetchLogsResult> {
+    const { address, abi, topicFilters = [] } = options;
+    const logs: IndexedLog[] = [];
+    const failedRanges: FailedRange[] = [];
+
+    // Anonymous events have no topic0 to filter on; they are matched through topic filters
+    const eventSignatures = options.eventSignatures.filter(eventSig => {
+      if (eventSig.signature.anonymous) {
+        console.warn(`Anonymous event ${eventSig.name} needs a topic filter to be indexed, skipping`);
+      }
+      return !eventSig.signature.anonymous;
+    });
+
+    if (eventSignatures.length > 0) {
+      const eventNames = eventSignatures.map(eventSig => eventSig.name);
+
+      // Event ABIs for the topic filter, keyed by topic0 for routing the results
+      const eventAbis = eventSignatures.map(eventSig => this.toAbiEvent(eventSig.signature));
+      const eventsBySelector = new Map(eventAbis.map((eventAbi, i) => [toEventSelector(eventAbi), eventSignatures[i]]));
+
+      const result = await this.fetchInBatches({ ...options, label: eventNames.join(', ') }, async (fromBlock, toBlock) =>
+        await client.getLogs({
+          address,
+          events: eventAbis,
+          fromBlock,
+          toBlock,
+        }) as Log[]
+      );
+
+      // Tag each log with its tracked event
+      for (const log of result.logs) {
+        const eventSig = log.topics[0] ? eventsBySelector.get(log.topics[0].toLowerCase() as `0x${string}`) : undefined;
+        if (eventSig) {
+          logs.push({ ...log, eventName: eventSig.name });
+        }
+      }
+
+      failedRanges.push(...result.failedRanges.map(range => ({ ...range, eventNames })));
+    }
+
+    if (topicFilters.length > 0) {
+      // Logs matched without a named event are routed by topic0 where the ABI knows it
+      const abiEvents = this.extractEventSignatures(abi, []).filter(eventSig => !eventSig.signature.anonymous);
+      const abiEventsBySelector = new Map(abiEvents.map(eventSig => [toEventSelector(this.toAbiEvent(eventSig.signature)), eventSig.name]));
+
+      for (const filter of topicFilters) {
+        const filterEvent = filter.eventName
+          ? abi.find(item => item.type === 'event' && item.name === filter.eventName) as ABIEvent | undefined
+          : undefined;
+        const label = `topics ${JSON.stringify(filter.topics)}`;
+
+        const result = await this.fetchInBatches({ ...options, label }, async (fromBlock, toBlock) => {
+          const rawLogs = await client.request({
+            method: 'eth_getLogs',
+            params: [{
+              address,
+              topics: filter.topics,
+              fromBlock: numberToHex(fromBlock),
+              toBlock: numberToHex(toBlock),
+            }],
+          });
+          return rawLogs.map(rawLog => formatLog(rawLog));
+        });
+
+        for (const log of result.logs) {
+          if (filterEvent) {
+            logs.push({ ...log, eventName: filterEvent.name, anonymous: Boolean(filterEvent.anonymous) });
+          } else {
+            const topic0 = log.topics[0]?.toLowerCase() as `0x${string}` | undefined;
+            logs.push({ ...log, eventName: (topic0 && abiEventsBySelector.get(topic0)) || 'Unknown' });
+          }
+        }
+
+        failedRanges.push(...result.failedRanges.map(range => ({
+          ...range,
+          eventNames: [],
+          topicFilters: [filter],
+        })));
+      }
+    }
+
+    // A log matched by several queries is kept once, preferring the first match
+    const seen = new Set<string>();
+    const uniqueLogs = logs.filter(log => {
+      const key = `${log.transactionHash}:${log.logIndex}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { logs: uniqueLogs, failedRanges };
+  }
+
+  /**
+   * Fetch, decode and store logs for a contract, an address list or any address over an
+   * inclusive block range
+   */
+  static async indexRange(options: IndexRangeOptions): Promise<IndexRangeResult> {
+    const { contractAddress, abi, eventSignatures, network, contractName, trackedEvents, topicFilters = [] } = options;
+    const isAnyAddress = contractAddress === ANY_ADDRESS;
+    // Addresses the range is indexed for; an "any address" subscription is tracked under its own key
+    const trackedAddresses = isAnyAddress
+      ? [contractAddress]
+      : options.addresses ?? [contractAddress as `0x${string}`];
+    let fromBlockNum = options.fromBlock;
+    const toBlockNum = options.toBlock;
+
+    const client = await BlockchainService.createClient(network);
+    const pool = await BlockchainService.getProviderPool(network);
+    // Block spans are learned per provider; key them by the endpoint the pool prefers
+    const provider = pool.preferredProvider() ?? 'default';
+    const currentBlock = options.currentBlock ?? await client.getBlockNumber();
+
+    // Compare stored block hashes with the canonical chain and roll back orphaned events
+    let reorgResult: ReorgResult | undefined;
+    try {
+      reorgResult = await ReorgService.checkAndRollback(network, currentBlock);
+      if (reorgResult.detected && reorgResult.forkBlock) {
+        // Re-index the affected range together with the requested one
+        const reindexFromBlock = BigInt(reorgResult.forkBlock) + BigInt(1);
+        if (reindexFromBlock < fromBlockNum && reindexFromBlock <= toBlockNum) {
+          console.log(`Extending range to re-index from fork point ${reindexFromBlock}`);
+          fromBlockNum = reindexFromBlock;
+        }
+      }
+    } catch (reorgError) {
+      console.error('Error checking for chain reorganization:', reorgError);
+    }
+
+    // One eth_getLogs per block range covering every tracked event, plus one per topic filter
+    let allLogs: IndexedLog[] = [];
+    let failedRanges: FailedRange[] = [];
+
+    try {
+      ({ logs: allLogs, failedRanges } = await this.fetchLogs(client, {
+        address: isAnyAddress ? undefined : trackedAddresses as `0x${string}`[],
+        abi,
+        eventSignatures,
+        topicFilters,
+        network,
+        provider,
+        fromBlock: fromBlockNum,
+        toBlock: toBlockNum,
+      }));
+    } catch (fetchError) {
+      console.error(`Error fetching logs for ${contractAddress}:`, fetchError);
+      failedRanges = [{
+        eventNames: eventSignatures.map(eventSig => eventSig.name),
+        ...(topicFilters.length > 0 && { topicFilters }),
+        fromBlock: fromBlockNum,
+        toBlock: toBlockNum,
+        error: rpcErrorMessage(fetchError),
+      }];
+    }
+
+    // Failed ranges are recorded as gaps in the transaction that stores the events, so a
+    // storage failure that sends the range back for another attempt doesn't record them twice
+    const recordGaps = failedRanges.length > 0 && options.recordGaps !== false;
+
+    // Blocks count as scanned once fetched or recorded as a gap; an unrecorded failure
+    // ends the scanned range just before it
+    const unrecordedFailures = recordGaps ? [] : failedRanges;
+    const scannedToBlock = unrecordedFailures.length > 0
+      ? unrecordedFailures.reduce((first, range) => range.fromBlock < first ? range.fromBlock : first, toBlockNum + BigInt(1)) - BigInt(1)
+      : toBlockNum;
+
+    try {
+      await BlockRangeService.save(network, provider);
+    } catch (saveError) {
+      console.error('Error saving learned block span:', saveError);
+    }
+
+    // Sort logs by block number and log index
+    allLogs.sort((a, b) => {
+      const blockDiff = Number(a.blockNumber) - Number(b.blockNumber);
+      if (blockDiff !== 0) return blockDiff;
+      return Number(a.logIndex) - Number(b.logIndex);
+    });
+
+    // Remember the canonical hash at the end of the range for the next reorg check
+    try {
+      await ReorgService.trackBlock(toBlockNum, network);
+    } catch (trackError) {
+      console.error('Error tracking block header:', trackError);
+    }
+
+    // Store events in database
+    let databaseStatus = 'not-attempted';
+    let storedEvents = 0;
+    let contractId: string | undefined;
+
+    try {
+      console.log('Storing events in database...');
+
+      // First, create or update the contract record
+      const contract = await DatabaseService.createOrUpdateContract(
+        contractAddress,
+        abi as unknown as Record<string, unknown>[],
+        network,
+        contractName ?? (isAnyAddress ? 'Any address' : `Contract ${contractAddress.slice(0, 8)}...`),
+        trackedEvents
+      );
+
+      contractId = contract.id;
+
+      // Resolve block timestamps; events stored without one are picked up by the backfill
+      let blockTimestamps = new Map<string, Date>();
+      if (allLogs.length > 0) {
+        try {
+          blockTimestamps = await DatabaseService.resolveBlockTimestamps(
+            allLogs.map(log => BigInt(String(log.blockNumber))),
+            network
+          );
+        } catch (timestampError) {
+          console.error('Error resolving block timestamps:', timestampError);
+        }
+      }
+
+      // Events are stored pending until the chain confirms them, unless they are already deep enough
+      let finalityHeads: FinalityHeads | null = null;
+      if (allLogs.length > 0) {
+        try {
+          finalityHeads = await FinalityService.getFinalityHeads(network, currentBlock);
+        } catch (finalityError) {
+          console.error('Error resolving finality heads:', finalityError);
+        }
+      }
+
+      // Decode each log against the stored contract ABI
+      const contractAbi = contract.abi as unknown as Abi;
+      const decodedLogs = allLogs.map(log => ({
+        ...log,
+        // Anonymous events can't be found by topic0, so name the ABI event explicitly
+        decodedArgs: EventDecoder.decodeLog(
+          contractAbi,
+          log,
+          log.anonymous ? EventDecoder.findAnonymousEvent(contractAbi, log.eventName) : undefined
+        ),
+        blockTimestamp: blockTimestamps.get(String(log.blockNumber)),
+        status: finalityHeads ? FinalityService.statusFor(BigInt(String(log.blockNumber)), finalityHeads) : 'pending',
+      }));
+
+      // Events are linked to the contract that emitted them
+      const logsByEmitter = new Map<string, typeof decodedLogs>();
+      for (const log of decodedLogs) {
+        const emitter = normalizeAddress(log.address);
+        logsByEmitter.set(emitter, [...(logsByEmitter.get(emitter) ?? []), log]);
+      }
+
+      const emitters: { contract: Contract; logs: typeof decodedLogs }[] = [];
+      for (const [emitter, emitterLogs] of logsByEmitter) {
+        // Emitters first seen by an "any address" query are registered inactive, since the
+        // subscription itself keeps following them
+        const emitterContract = emitter === normalizeAddress(contractAddress)
+          ? contract
+          : await DatabaseService.getOrCreateContract(emitter, abi as unknown as Record<string, unknown>[], network, {
+            name: `Contract ${emitter.slice(0, 8)}...`,
+            trackedEvents,
+            isActive: !isAnyAddress,
+          });
+        emitters.push({ contract: emitterContract, logs: emitterLogs });
+      }
+
+      // Events and checkpoints are written together, so a checkpoint never covers events that weren't stored
+      const eventNames = eventSignatures.map(eventSig => eventSig.name);
+      const insertedEvents = await prisma.$transaction(async (tx) => {
+        // Reindexing swaps the events these queries fetched atomically; untracked events and
+        // failed ranges keep theirs
+        if (options.replaceEvents) {
+          await tx.event.deleteMany({
+            where: {
+              network,
+              ...(!isAnyAddress && { contractAddress: { in: trackedAddresses.map(normalizeAddress) } }),
+              blockNumber: { gte: fromBlockNum, lte: toBlockNum },
+              OR: [
+                ...(eventNames.length > 0 ? [{ eventName: { in: eventNames } }] : []),
+                ...topicFilters.map(topicFilterWhere),
+              ],
+              NOT: failedRanges.map(range => ({ blockNumber: { gte: range.fromBlock, lte: range.toBlock } })),
+            },
+          });
+        }
+
+        const inserted: Event[] = [];
+        for (const emitter of emitters) {
+          const stored = await DatabaseService.storeEvents(emitter.logs, emitter.contract.id, network, tx);
+          inserted.push(...stored.events);
+        }
+
+        // A failed range covers every address in the query, so each gets its own gap to retry
+        if (recordGaps) {
+          for (const address of trackedAddresses) {
+            await GapService.recordGaps(address, network, failedRanges, tx);
+          }
+        }
+
+        for (const address of trackedAddresses) {
+          await CheckpointService.advance(tx, {
+            contractAddress: address,
+            network,
+            eventNames,
+            topicFilters,
+            fromBlock: fromBlockNum,
+            scannedToBlock,
+          });
+        }
+
+        return inserted;
+      }, { timeout: STORE_TRANSACTION_TIMEOUT_MS });
+      SubscriptionService.publishEvents(insertedEvents);
+      await DatabaseService.enqueueWebhookDeliveries(insertedEvents);
+
+      // Rows skipped as duplicates of already stored events aren't counted
+      storedEvents = insertedEvents.length;
+      databaseStatus = allLogs.length > 0 ? 'success' : 'no-events';
+      console.log(`Stored ${insertedEvents.length} of ${allLogs.length} events in database, scanned through block ${scannedToBlock}`);
+
+      // Factories register the children announced by their events
+      for (const emitter of emitters) {
+        if (!emitter.contract.factoryEvent) continue;
+        try {
+          await FactoryService.registerChildren(emitter.contract, emitter.logs);
+        } catch (factoryError) {
+          console.error(`Error registering children of factory ${emitter.contract.address}:`, factoryError);
+        }
+      }
+
+      // Keep errorCount/lastError in line with the contract's open gaps
+      for (const address of trackedAddresses) {
+        await GapService.syncIndexingStatus(address, network);
+      }
+    } catch (dbError) {
+      console.error('Database storage error:', dbError);
+      databaseStatus = 'error';
+      // Continue without failing the indexing pass
+    }
+
+    return {
+      logs: allLogs,
+      fromBlock: fromBlockNum,
+      toBlock: toBlockNum,
+      scannedToBlock,
+      database: {
+        status: databaseStatus,
+        storedEvents,
+        contractId
+      },
+      reorg: reorgResult,
+      gaps: failedRanges
+    };
+  }
+}
@@ -0,0 +1,326 @@
+import { prisma, DatabaseService, normalizeAddress } from './database';
+import { IndexerService, ABIItem, TopicFilter } from './indexer';
+import { Prisma, type IndexingJob, type IndexingJobChunk } from '../generated/prisma';
+
+// Blocks per job chunk; each chunk is fetched in smaller getLogs batches by the indexer
+const JOB_CHUNK_SIZE = BigInt(5000);
+
+// A chunk is retried until it has failed this many times
+const MAX_CHUNK_ATTEMPTS = 3;
+
+// Running chunks older than this are assumed abandoned by a crashed worker
+const STALE_CHUNK_MS = 10 * 60 * 1000;
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Persistent indexing jobs split into block-range chunks processed by the worker
+export class JobService {
+  /**
+   * Create a job and split its block range into chunks
+   */
+  static async createJob(options: {
+    contractAddress: string;
+    addresses?: string[];
+    network: string;
+    eventsToTrack: string[];
+    topicFilters?: TopicFilter[];
+    fromBlock: bigint;
+    toBlock: bigint;
+    replaceEvents?: boolean;
+  }) {
+    const { contractAddress, addresses = [], network, eventsToTrack, topicFilters = [], fromBlock, toBlock, replaceEvents = false } = options;
+
+    const chunks: { fromBlock: bigint; toBlock: bigint }[] = [];
+    for (let chunkFrom = fromBlock; chunkFrom <= toBlock; chunkFrom += JOB_CHUNK_SIZE) {
+      const chunkTo = chunkFrom + JOB_CHUNK_SIZE - BigInt(1);
+      chunks.push({
+        fromBlock: chunkFrom,
+        toBlock: chunkTo > toBlock ? toBlock : chunkTo,
+      });
+    }
+
+    return await prisma.indexingJob.create({
+      data: {
+        contractAddress: normalizeAddress(contractAddress),
+        addresses: addresses.map(normalizeAddress),
+        network,
+        eventsToTrack,
+        topicFilters: topicFilters as unknown as Prisma.InputJsonValue,
+        fromBlock,
+        toBlock,
+        replaceEvents,
+        chunks: {
+          create: chunks,
+        },
+      },
+      include: {
+        chunks: {
+          orderBy: { fromBlock: 'asc' },
+        },
+      },
+    });
+  }
+
+  static async getJob(id: string) {
+    return await prisma.indexingJob.findUnique({
+      where: { id },
+      include: {
+        chunks: {
+          orderBy: { fromBlock: 'asc' },
+        },
+      },
+    });
+  }
+
+  /**
+   * Keys ("network:address") of the contracts a pending or running job covers
+   */
+  static async getBackfillingContracts() {
+    const jobs = await prisma.indexingJob.findMany({
+      where: { status: { in: ['pending', 'running'] } },
+      select: { contractAddress: true, addresses: true, network: true },
+    });
+
+    return new Set(jobs.flatMap(job =>
+      [job.contractAddress, ...job.addresses].map(address => `${job.network}:${address}`)
+    ));
+  }
+
+  /**
+   * Claim the oldest runnable chunk. The conditional update makes the claim safe
+   * when several workers poll the same queue.
+   */
+  static async claimNextChunk() {
+    const candidate = await prisma.indexingJobChunk.findFirst({
+      where: {
+        status: 'pending',
+        job: {
+          status: { in: ['pending', 'running'] },
+        },
+      },
+      orderBy: [
+        { createdAt: 'asc' },
+        { fromBlock: 'asc' },
+      ],
+    });
+
+    if (!candidate) return null;
+
+    const claimed = await prisma.indexingJobChunk.updateMany({
+      where: {
+        id: candidate.id,
+        status: 'pending',
+      },
+      data: {
+        status: 'running',
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 0) return null;
+
+    await prisma.indexingJob.updateMany({
+      where: {
+        id: candidate.jobId,
+        status: 'pending',
+      },
+      data: {
+        status: 'running',
+        startedAt: new Date(),
+      },
+    });
+
+    return await prisma.indexingJobChunk.findUnique({
+      where: { id: candidate.id },
+      include: { job: true },
+    });
+  }
+
+  /**
+   * Index the chunk's block range and record the outcome
+   */
+  static async processChunk(chunk: IndexingJobChunk & { job: IndexingJob }) {
+    const { job } = chunk;
+
+    try {
+      const contract = await DatabaseService.getContract(job.contractAddress, job.network);
+      if (!contract) {
+        throw new Error(`Contract ${job.contractAddress} is not registered on ${job.network}`);
+      }
+
+      const abi = contract.abi as unknown as ABIItem[];
+      const { eventSignatures, topicFilters } = IndexerService.resolveTracking(
+        abi,
+        job.eventsToTrack,
+        job.topicFilters as unknown as TopicFilter[]
+      );
+
+      const result = await IndexerService.indexRange({
+        contractAddress: job.contractAddress,
+        ...(job.addresses.length > 0 && { addresses: job.addresses as `0x${string}`[] }),
+        abi,
+        eventSignatures,
+        topicFilters,
+        network: job.network,
+        fromBlock: chunk.fromBlock,
+        toBlock: chunk.toBlock,
+        contractName: contract.name ?? undefined,
+        replaceEvents: job.replaceEvents,
+      });
+
+      if (result.database.status === 'error') {
+        throw new Error('Failed to store events for chunk');
+      }
+
+      await prisma.indexingJobChunk.update({
+        where: { id: chunk.id },
+        data: {
+          status: 'completed',
+          eventsFound: result.logs.length,
+          error: null,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`Chunk ${chunk.fromBlock}-${chunk.toBlock} of job ${job.id} failed:`, error);
+
+      // Put the chunk back in the queue until it runs out of attempts
+      await prisma.indexingJobChunk.update({
+        where: { id: chunk.id },
+        data: {
+          status: chunk.attempts < MAX_CHUNK_ATTEMPTS ? 'pending' : 'failed',
+          error: message,
+        },
+      });
+    }
+
+    return await this.refreshJobProgress(job.id);
+  }
+
+  /**
+   * Recompute job totals from its chunks and settle the final status
+   */
+  static async refreshJobProgress(jobId: string) {
+    const chunks = await prisma.indexingJobChunk.findMany({
+      where: { jobId },
+    });
+
+    let blocksProcessed = BigInt(0);
+    let eventsFound = 0;
+    let failedChunks = 0;
+    let openChunks = 0;
+
+    for (const chunk of chunks) {
+      if (chunk.status === 'completed') {
+        blocksProcessed += chunk.toBlock - chunk.fromBlock + BigInt(1);
+        eventsFound += chunk.eventsFound;
+      } else if (chunk.status === 'failed') {
+        failedChunks += 1;
+      } else {
+        openChunks += 1;
+      }
+    }
+
+    const isFinished = openChunks === 0;
+    let status: JobStatus = 'running';
+    if (isFinished) {
+      status = failedChunks > 0 ? 'failed' : 'completed';
+    }
+
+    return await prisma.indexingJob.update({
+      where: { id: jobId },
+      data: {
+        status,
+        blocksProcessed,
+        eventsFound,
+        error: failedChunks > 0 ? `${failedChunks} of ${chunks.length} chunks failed` : null,
+        ...(isFinished && { completedAt: new Date() }),
+      },
+    });
+  }
+
+  /**
+   * Return chunks left running by a worker that died back to the queue
+   */
+  static async requeueStaleChunks() {
+    const result = await prisma.indexingJobChunk.updateMany({
+      where: {
+        status: 'running',
+        startedAt: { lt: new Date(Date.now() - STALE_CHUNK_MS) },
+      },
+      data: { status: 'pending' },
+    });
+
+    if (result.count > 0) {
+      console.warn(`Re-queued ${result.count} stale job chunks`);
+    }
+    return result.count;
+  }
+
+  /**
+   * Process queued chunks until the queue is empty or the time budget runs out
+   */
+  static async processQueue(timeBudgetMs: number) {
+    const deadline = Date.now() + timeBudgetMs;
+    let processedChunks = 0;
+
+    await this.requeueStaleChunks();
+
+    while (Date.now() < deadline) {
+      const chunk = await this.claimNextChunk();
+      if (!chunk) break;
+
+      console.log(`Processing chunk ${chunk.fromBlock}-${chunk.toBlock} of job ${chunk.jobId}`);
+      await this.processChunk(chunk);
+      processedChunks += 1;
+    }
+
+    return processedChunks;
+  }
+
+  /**
+   * Serialize a job with progress figures for the REST and GraphQL layers
+   */
+  static formatJob(job: IndexingJob & { chunks?: IndexingJobChunk[] }) {
+    const totalBlocks = job.toBlock - job.fromBlock + BigInt(1);
+    const percentComplete = totalBlocks > BigInt(0)
+      ? Number((job.blocksProcessed * BigInt(10000)) / totalBlocks) / 100
+      : 100;
+
+    const chunks = job.chunks ?? [];
+
+    return {
+      id: job.id,
+      contractAddress: job.contractAddress,
+      addresses: job.addresses,
+      network: job.network,
+      eventsToTrack: job.eventsToTrack,
+      topicFilters: job.topicFilters as unknown as TopicFilter[],
+      status: job.status,
+      fromBlock: job.fromBlock.toString(),
+      toBlock: job.toBlock.toString(),
+      totalBlocks: totalBlocks.toString(),
+      blocksProcessed: job.blocksProcessed.toString(),
+      percentComplete,
+      eventsFound: job.eventsFound,
+      failedChunks: chunks.filter(chunk => chunk.status === 'failed').length,
+      error: job.error,
+      chunks: chunks.map(chunk => ({
+        id: chunk.id,
+        fromBlock: chunk.fromBlock.toString(),
+        toBlock: chunk.toBlock.toString(),
+        status: chunk.status,
+        eventsFound: chunk.eventsFound,
+        attempts: chunk.attempts,
+        error: chunk.error,
+        startedAt: chunk.startedAt?.toISOString() ?? null,
+        completedAt: chunk.completedAt?.toISOString() ?? null,
+      })),
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      completedAt: job.completedAt?.toISOString() ?? null,
+    };
+  }
+}
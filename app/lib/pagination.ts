@@ -0,0 +1,240 @@
+import { Prisma } from '../generated/prisma';
+import { ArgFilterService } from './arg-filters';
+
+// Relay connection arguments of the event queries
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export const EVENT_ORDER_FIELDS = ['blockNumber', 'logIndex', 'timestamp', 'eventName', 'arg'] as const;
+export type EventOrderField = typeof EVENT_ORDER_FIELDS[number];
+export type SortDirection = 'asc' | 'desc';
+
+// One orderBy entry; 'arg' sorts by the numeric value of the decoded argument named in arg
+export interface EventOrderBy {
+  field: string;
+  direction?: string | null;
+  arg?: string | null;
+}
+
+// A column or expression events are sorted by. Nullable terms sort their NULLs last.
+export interface SortTerm {
+  key: string;
+  sql: Prisma.Sql;
+  type: 'bigint' | 'int' | 'timestamp' | 'text' | 'numeric';
+  nullable: boolean;
+  direction: SortDirection;
+}
+
+// A validated page request: forward reads after the cursor, backward reads before it
+export interface EventPageRequest {
+  direction: 'forward' | 'backward';
+  size: number;
+  order: SortTerm[];
+  // Sort values of the event the page starts from, one per order term
+  cursor: (string | null)[] | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+const column = (name: string) => Prisma.raw(`"${name}"`);
+
+const fieldTerm = (field: EventOrderField, direction: SortDirection, arg?: string | null): SortTerm => {
+  switch (field) {
+    case 'blockNumber':
+      return { key: field, sql: column('blockNumber'), type: 'bigint', nullable: false, direction };
+    case 'logIndex':
+      return { key: field, sql: column('logIndex'), type: 'int', nullable: false, direction };
+    // Events whose block time isn't resolved yet have no timestamp
+    case 'timestamp':
+      return { key: field, sql: column('blockTimestamp'), type: 'timestamp', nullable: true, direction };
+    case 'eventName':
+      return { key: field, sql: column('eventName'), type: 'text', nullable: false, direction };
+    case 'arg':
+      return { key: `arg.${arg}`, sql: ArgFilterService.numericValueSql(arg!), type: 'numeric', nullable: true, direction };
+  }
+};
+
+const orderKey = (order: SortTerm[]) => order.map(term => `${term.key}:${term.direction}`).join(',');
+
+// Opaque cursors, ordering and Relay page arguments for event connections
+export class PaginationService {
+  /**
+   * Sort terms for an orderBy list, newest first by default. Block number and log index
+   * follow as tie-breakers in the direction of the first term, then the id, since logs of
+   * different networks can share both.
+   */
+  static parseOrder(orderBy: EventOrderBy[] = []): SortTerm[] {
+    const order: SortTerm[] = [];
+
+    for (const entry of orderBy) {
+      if (!EVENT_ORDER_FIELDS.includes(entry.field as EventOrderField)) {
+        throw new Error(`Invalid orderBy field "${entry.field}". Use one of: ${EVENT_ORDER_FIELDS.join(', ')}`);
+      }
+
+      const direction = entry.direction ?? 'desc';
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new Error(`Invalid orderBy direction "${direction}". Use asc or desc`);
+      }
+
+      if (entry.field === 'arg' ? !entry.arg?.trim() : entry.arg != null) {
+        throw new Error('orderBy arg names the decoded argument to sort by and is only used with field "arg"');
+      }
+
+      const term = fieldTerm(entry.field as EventOrderField, direction, entry.arg);
+      if (!order.some(existing => existing.key === term.key)) {
+        order.push(term);
+      }
+    }
+
+    const tieDirection = order[0]?.direction ?? 'desc';
+    for (const field of ['blockNumber', 'logIndex'] as const) {
+      if (!order.some(term => term.key === field)) {
+        order.push(fieldTerm(field, tieDirection));
+      }
+    }
+    order.push({ key: 'id', sql: column('id'), type: 'text', nullable: false, direction: tieDirection });
+
+    return order;
+  }
+
+  static encodeCursor(order: SortTerm[], values: (string | null)[]) {
+    return Buffer.from(JSON.stringify([orderKey(order), ...values])).toString('base64url');
+  }
+
+  static decodeCursor(order: SortTerm[], cursor: string): (string | null)[] {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error(`Invalid cursor "${cursor}"`);
+    }
+
+    if (!Array.isArray(decoded) || !decoded.every(value => value === null || typeof value === 'string')) {
+      throw new Error(`Invalid cursor "${cursor}"`);
+    }
+
+    const [key, ...values] = decoded as (string | null)[];
+    if (key !== orderKey(order)) {
+      throw new Error('Cursor was created with a different orderBy; page again from the start');
+    }
+    if (values.length !== order.length) {
+      throw new Error(`Invalid cursor "${cursor}"`);
+    }
+    return values;
+  }
+
+  /**
+   * Validate first/after and last/before against the ordering. Without either, the first
+   * DEFAULT_PAGE_SIZE events are returned.
+   */
+  static parse(args: ConnectionArgs, order: SortTerm[] = this.parseOrder()): EventPageRequest {
+    if (args.first != null && args.last != null) {
+      throw new Error('Use either first/after or last/before, not both');
+    }
+    if (args.after != null && args.before != null) {
+      throw new Error('Use either after or before, not both');
+    }
+
+    for (const key of ['first', 'last'] as const) {
+      const size = args[key];
+      if (size != null && (!Number.isInteger(size) || size < 0)) {
+        throw new Error(`${key} must be a non-negative integer`);
+      }
+    }
+
+    if (args.last != null || args.before != null) {
+      if (args.after != null) {
+        throw new Error('after can only be used with first');
+      }
+      return {
+        direction: 'backward',
+        size: args.last ?? DEFAULT_PAGE_SIZE,
+        order,
+        cursor: args.before != null ? this.decodeCursor(order, args.before) : null,
+      };
+    }
+
+    return {
+      direction: 'forward',
+      size: args.first ?? DEFAULT_PAGE_SIZE,
+      order,
+      cursor: args.after != null ? this.decodeCursor(order, args.after) : null,
+    };
+  }
+
+  /**
+   * ORDER BY for reading a page. Reading backward walks the reverse order from the cursor.
+   */
+  static orderBySql(page: EventPageRequest) {
+    const forward = page.direction === 'forward';
+
+    return Prisma.join(page.order.map(term => {
+      const ascending = (term.direction === 'asc') === forward;
+      const nulls = term.nullable ? (forward ? ' NULLS LAST' : ' NULLS FIRST') : '';
+      return Prisma.sql`${term.sql} ${Prisma.raw(`${ascending ? 'ASC' : 'DESC'}${nulls}`)}`;
+    }), ', ');
+  }
+
+  /**
+   * Condition for events beyond the cursor in the reading order
+   */
+  static cursorSql(page: EventPageRequest): Prisma.Sql | null {
+    const { cursor, order } = page;
+    if (!cursor) return null;
+
+    const forward = page.direction === 'forward';
+    const values = order.map((term, i) => Prisma.sql`${cursor[i]}::${Prisma.raw(term.type)}`);
+
+    // A row comparison is simplest for the index when every term sorts the same way
+    if (order.every(term => !term.nullable && term.direction === order[0].direction)) {
+      const ascending = (order[0].direction === 'asc') === forward;
+      return Prisma.sql`(${Prisma.join(order.map(term => term.sql))}) ${Prisma.raw(ascending ? '>' : '<')} (${Prisma.join(values)})`;
+    }
+
+    // Otherwise: equal on every earlier term and beyond on this one
+    const clauses = order.map((term, i) => {
+      const ascending = (term.direction === 'asc') === forward;
+      let beyond = Prisma.sql`${term.sql} ${Prisma.raw(ascending ? '>' : '<')} ${values[i]}`;
+      if (term.nullable) {
+        // NULLs come last reading forward and first reading backward
+        beyond = forward
+          ? Prisma.sql`(${beyond} OR (${values[i]} IS NOT NULL AND ${term.sql} IS NULL))`
+          : Prisma.sql`(${beyond} OR (${values[i]} IS NULL AND ${term.sql} IS NOT NULL))`;
+      }
+
+      const equal = order.slice(0, i).map((earlier, j) => earlier.nullable
+        ? Prisma.sql`${earlier.sql} IS NOT DISTINCT FROM ${values[j]}`
+        : Prisma.sql`${earlier.sql} = ${values[j]}`);
+
+      return Prisma.sql`(${Prisma.join([...equal, beyond], ' AND ')})`;
+    });
+
+    return Prisma.sql`(${Prisma.join(clauses, ' OR ')})`;
+  }
+
+  /**
+   * Page info for a page read with one extra row to tell whether more follow. A cursor
+   * means there are events on the side it was taken from.
+   */
+  static pageInfo(page: EventPageRequest, cursors: string[], hasMore: boolean): PageInfo {
+    const forward = page.direction === 'forward';
+
+    return {
+      hasNextPage: forward ? hasMore : page.cursor != null,
+      hasPreviousPage: forward ? page.cursor != null : hasMore,
+      startCursor: cursors[0] ?? null,
+      endCursor: cursors[cursors.length - 1] ?? null,
+    };
+  }
+}
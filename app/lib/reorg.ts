@@ -0,0 +1,218 @@
+import { prisma } from './database';
+import { BlockchainService } from './blockchain';
+import { SubscriptionService } from './subscriptions';
+import { WebhookService } from './webhooks';
+
+// How many of the most recent tracked blocks are compared against the canonical chain on each pass
+const REORG_CHECK_DEPTH = 64;
+
+// Blocks fetched at once when checking which stored blocks were orphaned
+const BLOCK_FETCH_CONCURRENCY = 10;
+
+export interface ReorgResult {
+  detected: boolean;
+  forkBlock?: string;
+  orphanedBlocks: string[];
+  deletedEvents: number;
+}
+
+// Chain reorganization detection and rollback
+export class ReorgService {
+  /**
+   * Record the canonical header for a block so later passes can detect divergence
+   */
+  static async trackBlock(blockNumber: bigint, network: string) {
+    const block = await BlockchainService.getBlock(blockNumber, network);
+
+    const header = {
+      blockHash: block.hash,
+      parentHash: block.parentHash,
+    };
+
+    return await prisma.trackedBlock.upsert({
+      where: {
+        network_blockNumber: {
+          network,
+          blockNumber,
+        },
+      },
+      update: header,
+      create: {
+        network,
+        blockNumber,
+        ...header,
+      },
+    });
+  }
+
+  /**
+   * Compare the most recent tracked block hashes (newest first) with the canonical chain.
+   * Returns the highest block that still matches and every block that diverged.
+   */
+  static async detectReorg(network: string, headBlock: bigint) {
+    const trackedBlocks = await prisma.trackedBlock.findMany({
+      where: {
+        network,
+        blockNumber: { lte: headBlock },
+      },
+      orderBy: {
+        blockNumber: 'desc',
+      },
+      take: REORG_CHECK_DEPTH,
+    });
+
+    const orphanedBlocks: bigint[] = [];
+    let forkBlock: bigint | null = null;
+
+    for (const tracked of trackedBlocks) {
+      const canonical = await BlockchainService.getBlock(tracked.blockNumber, network);
+
+      if (canonical.hash === tracked.blockHash) {
+        forkBlock = tracked.blockNumber;
+        break;
+      }
+
+      console.warn(`Reorg detected on ${network} at block ${tracked.blockNumber}: stored ${tracked.blockHash}, canonical ${canonical.hash}`);
+      orphanedBlocks.push(tracked.blockNumber);
+    }
+
+    if (orphanedBlocks.length === 0) {
+      return null;
+    }
+
+    // Nothing matched among the tracked blocks: roll back to just below the deepest diverged block
+    if (forkBlock === null) {
+      forkBlock = orphanedBlocks[orphanedBlocks.length - 1] - BigInt(1);
+    }
+
+    return { forkBlock, orphanedBlocks };
+  }
+
+  /**
+   * Canonical hash of each block, or nothing for blocks past the head
+   */
+  private static async getCanonicalHashes(network: string, blockNumbers: bigint[], headBlock: bigint) {
+    const uniqueBlocks = [...new Set(blockNumbers.map(n => n.toString()))]
+      .map(n => BigInt(n))
+      .filter(n => n <= headBlock);
+    const hashes = new Map<string, string>();
+
+    for (let i = 0; i < uniqueBlocks.length; i += BLOCK_FETCH_CONCURRENCY) {
+      const blocks = await Promise.all(
+        uniqueBlocks.slice(i, i + BLOCK_FETCH_CONCURRENCY).map(blockNumber => BlockchainService.getBlock(blockNumber, network))
+      );
+      blocks.forEach(block => hashes.set(block.number.toString(), block.hash));
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Delete events and cached headers of blocks between the fork point and the head whose
+   * hash is no longer canonical, announce the removed events to webhooks and subscribers, and rewind the
+   * network's checkpoints so every contract scans the new blocks
+   */
+  static async rollback(network: string, forkBlock: bigint, headBlock: bigint) {
+    const [events, cachedHeaders] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          network,
+          blockNumber: { gt: forkBlock },
+        },
+      }),
+      prisma.blockHeader.findMany({
+        where: {
+          network,
+          blockNumber: { gt: forkBlock },
+        },
+        select: { id: true, blockNumber: true, blockHash: true },
+      }),
+    ]);
+
+    const canonicalHashes = await this.getCanonicalHashes(
+      network,
+      [...events, ...cachedHeaders].map(row => row.blockNumber),
+      headBlock
+    );
+    // Rows past the head have no canonical hash to compare with, so they are kept
+    const isOrphaned = (row: { blockNumber: bigint; blockHash: string }) => {
+      const canonicalHash = canonicalHashes.get(row.blockNumber.toString());
+      return canonicalHash !== undefined && canonicalHash !== row.blockHash;
+    };
+
+    const orphanedEvents = events.filter(isOrphaned);
+    const orphanedHeaders = cachedHeaders.filter(isOrphaned);
+    const orphanedEventIds = orphanedEvents.map(event => event.id);
+
+    await prisma.$transaction(async (tx) => {
+      await WebhookService.queueRemovals(tx, orphanedEvents);
+      await SubscriptionService.recordRemovedEvents(tx, orphanedEvents);
+
+      await tx.event.deleteMany({
+        where: { id: { in: orphanedEventIds } },
+      });
+      await tx.blockHeader.deleteMany({
+        where: { id: { in: orphanedHeaders.map(header => header.id) } },
+      });
+      await tx.trackedBlock.deleteMany({
+        where: {
+          network,
+          blockNumber: { gt: forkBlock },
+        },
+      });
+      await tx.indexingStatus.updateMany({
+        where: {
+          network,
+          lastIndexedBlock: { gt: forkBlock },
+        },
+        data: {
+          lastIndexedBlock: forkBlock,
+          lastIndexedAt: new Date(),
+        },
+      });
+      await tx.contract.updateMany({
+        where: {
+          network,
+          lastIndexedBlock: { gt: forkBlock },
+        },
+        data: {
+          lastIndexedBlock: forkBlock,
+        },
+      });
+      await tx.indexingCheckpoint.updateMany({
+        where: {
+          network,
+          lastScannedBlock: { gt: forkBlock },
+        },
+        data: {
+          lastScannedBlock: forkBlock,
+        },
+      });
+    });
+
+    SubscriptionService.publishRemovedEvents(orphanedEvents);
+
+    console.log(`Rolled back ${orphanedEvents.length} events in orphaned blocks on ${network} past fork block ${forkBlock}`);
+    return orphanedEvents.length;
+  }
+
+  /**
+   * Detect a reorg on the network and roll back orphaned data if one occurred
+   */
+  static async checkAndRollback(network: string, headBlock: bigint): Promise<ReorgResult> {
+    const reorg = await this.detectReorg(network, headBlock);
+
+    if (!reorg) {
+      return { detected: false, orphanedBlocks: [], deletedEvents: 0 };
+    }
+
+    const deletedEvents = await this.rollback(network, reorg.forkBlock, headBlock);
+
+    return {
+      detected: true,
+      forkBlock: reorg.forkBlock.toString(),
+      orphanedBlocks: reorg.orphanedBlocks.map(n => n.toString()),
+      deletedEvents,
+    };
+  }
+}
@@ -0,0 +1,352 @@
+import { http, Chain as ViemChain } from 'viem';
+
+// Attempts per request across all endpoints, including rate-limit retries
+const MAX_REQUEST_ATTEMPTS = 5;
+
+// Exponential backoff for rate-limited requests
+const RATE_LIMIT_BASE_DELAY_MS = 250;
+const RATE_LIMIT_MAX_DELAY_MS = 8000;
+
+// An endpoint is benched after this many consecutive failures, for an increasing period
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Weight of the newest sample in the moving averages
+const EWMA_ALPHA = 0.2;
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// JSON-RPC codes caused by the request itself; another provider would answer the same
+const REQUEST_ERROR_CODES = [-32600, -32601, -32602];
+const RATE_LIMIT_PATTERN = /rate limit|too many requests|exceeded .*(capacity|quota|compute units)|(daily|capacity|quota|request|credit) limit (exceeded|reached)/i;
+
+// eth_getLogs rejections: a fixed cap on the block span, or too many logs for this range.
+// Both are request errors too.
+const BLOCK_SPAN_ERROR_PATTERN = /block range|range (is )?too (large|wide)|exceeds? (the )?max(imum)? block|more than \d+ blocks/i;
+// Only wording about the result itself: quota and rate errors also say "limit exceeded"
+const RESULT_SIZE_ERROR_PATTERN = /more than \d+ results|too many (results|logs)|response size|query returned more|query timeout|(log|result|response)s? (size |count )?limit exceeded/i;
+// "up to a 2K block range" (Alchemy) or "exceed maximum block range: 50000" (geth-based nodes)
+const MAX_BLOCK_SPAN_HINT_PATTERN = /up to (?:a )?(\d+)(k?) block range|max(?:imum)? block range:? (\d+)(k?)/i;
+// "Try with this block range [0x10, 0x2f]", the span the provider says fits the result limit
+const SUGGESTED_RANGE_PATTERN = /\[\s*(0x[0-9a-f]+)\s*,\s*(0x[0-9a-f]+)\s*\]/i;
+
+export type RpcErrorKind = 'rate-limit' | 'request' | 'provider';
+
+export interface RangeLimitError {
+  kind: 'block-span' | 'result-size';
+  // Largest span the provider accepts at all, when it says so
+  maxBlockSpan?: number;
+  // Span the provider suggests retrying with
+  suggestedBlockSpan?: number;
+}
+
+type RpcRequestArgs = { method: string; params?: unknown };
+type RpcRequestFn = (args: RpcRequestArgs) => Promise<unknown>;
+
+interface EndpointState {
+  url: string;
+  request: RpcRequestFn;
+  latencyMs: number | null;
+  errorRate: number;
+  totalRequests: number;
+  totalErrors: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  score: number;
+  latencyMs: number | null;
+  errorRate: number;
+  totalRequests: number;
+  totalErrors: number;
+  consecutiveFailures: number;
+  cooldownUntil: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Walk the viem error cause chain looking for an HTTP status or JSON-RPC code
+const findErrorField = (error: unknown, field: 'status' | 'code'): number | undefined => {
+  let current = error as { cause?: unknown; status?: unknown; code?: unknown } | undefined;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (typeof current[field] === 'number') return current[field] as number;
+    current = current.cause as typeof current;
+  }
+  return undefined;
+};
+
+// viem's full message embeds the request URL (and its API key), so use the short form
+export const rpcErrorMessage = (error: unknown) => {
+  if (!(error instanceof Error)) return String(error);
+  const { shortMessage, details } = error as { shortMessage?: string; details?: string };
+  const message = shortMessage ?? error.message;
+  return details ? `${message} ${details}` : message;
+};
+
+/**
+ * Decide whether an error should trigger backoff, be returned to the caller as-is,
+ * or count against the endpoint and fail over to another one
+ */
+export const classifyRpcError = (error: unknown): RpcErrorKind => {
+  const message = rpcErrorMessage(error);
+  const status = findErrorField(error, 'status');
+  const code = findErrorField(error, 'code');
+
+  if (status === 429 || code === 429 || RATE_LIMIT_PATTERN.test(message)) {
+    return 'rate-limit';
+  }
+
+  if ((code !== undefined && REQUEST_ERROR_CODES.includes(code)) ||
+    BLOCK_SPAN_ERROR_PATTERN.test(message) || RESULT_SIZE_ERROR_PATTERN.test(message)) {
+    return 'request';
+  }
+
+  return 'provider';
+};
+
+/**
+ * Recognize an eth_getLogs rejection caused by the size of the requested range.
+ * Returns null for any other error.
+ */
+export const parseRangeLimitError = (error: unknown): RangeLimitError | null => {
+  // A rate limit that outlasted the pool's retries says nothing about the range
+  if (classifyRpcError(error) === 'rate-limit') return null;
+
+  const message = rpcErrorMessage(error);
+  const isBlockSpan = BLOCK_SPAN_ERROR_PATTERN.test(message);
+  const isResultSize = RESULT_SIZE_ERROR_PATTERN.test(message);
+
+  if (!isBlockSpan && !isResultSize) return null;
+
+  const result: RangeLimitError = { kind: isResultSize ? 'result-size' : 'block-span' };
+
+  const maxSpanHint = message.match(MAX_BLOCK_SPAN_HINT_PATTERN);
+  if (maxSpanHint) {
+    const span = maxSpanHint[1] ?? maxSpanHint[3];
+    const thousands = maxSpanHint[2] || maxSpanHint[4];
+    result.maxBlockSpan = Number(span) * (thousands ? 1000 : 1);
+  }
+
+  const suggestedRange = message.match(SUGGESTED_RANGE_PATTERN);
+  if (suggestedRange) {
+    const span = Number(BigInt(suggestedRange[2]) - BigInt(suggestedRange[1])) + 1;
+    if (span > 0) result.suggestedBlockSpan = span;
+  }
+
+  return result;
+};
+
+// Assumed latency for endpoints without a successful request yet
+const DEFAULT_LATENCY_MS = 250;
+
+// Lower is better: slow endpoints and endpoints that error are both penalized
+const scoreEndpoint = (endpoint: EndpointState) =>
+  (endpoint.latencyMs ?? DEFAULT_LATENCY_MS) * (1 + endpoint.errorRate * 10);
+
+// Pools live for the lifetime of the process, one per network
+const pools = new Map<string, ProviderPool>();
+
+// Several RPC endpoints for one chain with latency/error tracking and failover
+export class ProviderPool {
+  readonly network: string;
+  private chain: ViemChain;
+  private endpoints: EndpointState[] = [];
+
+  private constructor(network: string, chain: ViemChain) {
+    this.network = network;
+    this.chain = chain;
+  }
+
+  /**
+   * Get the pool for a network, syncing its endpoints with the configured URLs
+   */
+  static forNetwork(network: string, chain: ViemChain, urls: string[]) {
+    let pool = pools.get(network);
+    if (!pool) {
+      pool = new ProviderPool(network, chain);
+      pools.set(network, pool);
+    }
+    pool.setEndpoints(chain, urls);
+    return pool;
+  }
+
+  static getPools() {
+    return [...pools.values()];
+  }
+
+  /**
+   * Replace the endpoint list, keeping the stats of URLs that are still configured
+   */
+  private setEndpoints(chain: ViemChain, urls: string[]) {
+    const uniqueUrls = [...new Set(urls)];
+    const unchanged = this.chain.id === chain.id &&
+      uniqueUrls.length === this.endpoints.length &&
+      uniqueUrls.every((url, i) => this.endpoints[i].url === url);
+    if (unchanged) return;
+
+    this.chain = chain;
+    const existing = new Map(this.endpoints.map(endpoint => [endpoint.url, endpoint]));
+
+    this.endpoints = uniqueUrls.map(url => existing.get(url) ?? {
+      url,
+      request: http(url, { timeout: REQUEST_TIMEOUT_MS })({ chain, retryCount: 0 }).request as RpcRequestFn,
+      latencyMs: null,
+      errorRate: 0,
+      totalRequests: 0,
+      totalErrors: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastError: null,
+      lastErrorAt: null,
+    });
+  }
+
+  /**
+   * Healthiest endpoint first; benched endpoints only when nothing else is left
+   */
+  private rankEndpoints(exclude: Set<string>) {
+    const now = Date.now();
+    const candidates = this.endpoints.filter(endpoint => !exclude.has(endpoint.url));
+    const pool = candidates.length > 0 ? candidates : this.endpoints;
+
+    const available = pool.filter(endpoint => endpoint.cooldownUntil <= now);
+    if (available.length > 0) {
+      return [...available].sort((a, b) => scoreEndpoint(a) - scoreEndpoint(b));
+    }
+
+    return [...pool].sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+  }
+
+  /**
+   * Masked URL of the endpoint the next request will most likely go to
+   */
+  preferredProvider() {
+    const [endpoint] = this.rankEndpoints(new Set());
+    return endpoint ? maskUrl(endpoint.url) : null;
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.totalRequests += 1;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA);
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown) {
+    endpoint.totalRequests += 1;
+    endpoint.totalErrors += 1;
+    endpoint.consecutiveFailures += 1;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    endpoint.lastError = rpcErrorMessage(error).slice(0, 500);
+    endpoint.lastErrorAt = Date.now();
+
+    if (endpoint.consecutiveFailures >= FAILURE_THRESHOLD) {
+      const exponent = endpoint.consecutiveFailures - FAILURE_THRESHOLD;
+      const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** exponent, MAX_COOLDOWN_MS);
+      endpoint.cooldownUntil = Date.now() + cooldown;
+      console.warn(`RPC endpoint ${maskUrl(endpoint.url)} on ${this.network} benched for ${cooldown}ms`);
+    }
+  }
+
+  /**
+   * EIP-1193 request with failover across endpoints and backoff on rate limits
+   */
+  request = async (args: RpcRequestArgs): Promise<unknown> => {
+    if (this.endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${this.network}`);
+    }
+
+    const failedEndpoints = new Set<string>();
+    let rateLimitRetries = 0;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < MAX_REQUEST_ATTEMPTS; attempt++) {
+      const [endpoint] = this.rankEndpoints(failedEndpoints);
+      const startedAt = Date.now();
+
+      try {
+        const result = await endpoint.request(args);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        lastError = error;
+        const kind = classifyRpcError(error);
+
+        if (kind === 'request') {
+          // The provider answered; the request itself needs to change
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error);
+
+        if (kind === 'rate-limit') {
+          const delay = Math.min(RATE_LIMIT_BASE_DELAY_MS * 2 ** rateLimitRetries, RATE_LIMIT_MAX_DELAY_MS);
+          rateLimitRetries += 1;
+          console.warn(`Rate limited by ${maskUrl(endpoint.url)} on ${this.network}, retrying in ${delay}ms`);
+          await sleep(delay + Math.floor(Math.random() * 100));
+        } else {
+          failedEndpoints.add(endpoint.url);
+          console.warn(`RPC endpoint ${maskUrl(endpoint.url)} on ${this.network} failed, failing over:`, rpcErrorMessage(error));
+        }
+      }
+    }
+
+    throw lastError;
+  };
+
+  /**
+   * Send eth_blockNumber to every endpoint to refresh its stats
+   */
+  async probe() {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        await endpoint.request({ method: 'eth_blockNumber' });
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+      }
+    }));
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+
+    return this.endpoints.map(endpoint => ({
+      url: maskUrl(endpoint.url),
+      healthy: endpoint.cooldownUntil <= now && endpoint.errorRate < 0.5,
+      score: Math.round(scoreEndpoint(endpoint)),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Number(endpoint.errorRate.toFixed(3)),
+      totalRequests: endpoint.totalRequests,
+      totalErrors: endpoint.totalErrors,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt ? new Date(endpoint.lastErrorAt).toISOString() : null,
+    }));
+  }
+}
+
+// Strip paths and query strings, which usually carry provider API keys
+export const maskUrl = (rpcUrl: string) => {
+  try {
+    const url = new URL(rpcUrl);
+    const hasSecret = url.pathname.length > 1 || url.search.length > 0;
+    return `${url.protocol}//${url.host}${hasSecret ? '/***' : ''}`;
+  } catch {
+    return '***';
+  }
+};
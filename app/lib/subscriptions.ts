@@ -0,0 +1,303 @@
+import { EventEmitter } from 'node:events';
+import type { Event, IndexingStatus, Prisma } from '../generated/prisma';
+
+export const EVENT_ADDED = 'EVENT_ADDED';
+export const INDEXING_STATUS_CHANGED = 'INDEXING_STATUS_CHANGED';
+
+// Events a reorg removed are published on EVENT_ADDED again with removed set
+export type PublishedEvent = Event & { removed?: boolean };
+
+interface TopicPayloads {
+  [EVENT_ADDED]: PublishedEvent;
+  [INDEXING_STATUS_CHANGED]: IndexingStatus;
+}
+
+type Topic = keyof TopicPayloads;
+
+// How often the relay looks for rows written by other processes (the worker)
+const RELAY_POLL_INTERVAL_MS = 2000;
+// Rows become visible when their transaction commits, which can be well after createdAt.
+// The indexer's store transaction may run for up to 60 seconds, so look back well past that.
+const RELAY_LOOKBACK_MS = 3 * 60 * 1000;
+// Rows read per poll; a large backfill is relayed over several polls
+const RELAY_BATCH_SIZE = 500;
+// Removal records only need to outlive the relay lookback
+const REMOVED_EVENT_RETENTION_MS = 60 * 60 * 1000;
+
+// Position of the relay's sweep through a table, ordered by (createdAt, id)
+interface ScanCursor {
+  createdAt: Date;
+  id: string;
+}
+
+interface SubscriptionState {
+  emitter: EventEmitter;
+  subscribers: number;
+  relay: NodeJS.Timeout | null;
+  eventCursor: Date;
+  statusCursor: Date;
+  // Where the next poll continues; null starts over from the lookback window
+  eventScan: ScanCursor | null;
+  removedScan: ScanCursor | null;
+  // Rows older than this were written before anyone subscribed
+  relayStartedAt: Date;
+  // Rows already published, keyed by event id or status id and version, with their write time
+  published: Map<string, number>;
+}
+
+// Shared across module reloads and route bundles, like the Prisma client
+const globalForSubscriptions = globalThis as unknown as {
+  subscriptionState: SubscriptionState | undefined;
+};
+
+const state: SubscriptionState = globalForSubscriptions.subscriptionState ?? {
+  emitter: new EventEmitter().setMaxListeners(0),
+  subscribers: 0,
+  relay: null,
+  eventCursor: new Date(),
+  statusCursor: new Date(),
+  eventScan: null,
+  removedScan: null,
+  relayStartedAt: new Date(),
+  published: new Map(),
+};
+
+globalForSubscriptions.subscriptionState = state;
+
+const statusKey = (status: IndexingStatus) => `${status.id}:${status.updatedAt.getTime()}`;
+const removedKey = (eventId: string) => `removed:${eventId}`;
+
+// Rows written since the window start, after the scan cursor
+const scanWhere = (windowStart: Date, cursor: ScanCursor | null) => ({
+  createdAt: { gte: windowStart },
+  ...(cursor && {
+    OR: [
+      { createdAt: { gt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+    ],
+  }),
+});
+
+const scanOrder = [{ createdAt: 'asc' as const }, { id: 'asc' as const }];
+
+// A full page continues from its last row; a short one means the sweep reached the end
+const nextScan = (rows: ScanCursor[]) =>
+  rows.length === RELAY_BATCH_SIZE ? { createdAt: rows[rows.length - 1].createdAt, id: rows[rows.length - 1].id } : null;
+
+// Event rows are stored as JSON with the block number as a string and dates as ISO strings
+const toRemovedEvent = (stored: Prisma.JsonValue): PublishedEvent => {
+  const event = stored as unknown as Event & { blockNumber: string; blockTimestamp: string | null; createdAt: string; updatedAt: string };
+  return {
+    ...event,
+    blockNumber: BigInt(event.blockNumber),
+    blockTimestamp: event.blockTimestamp ? new Date(event.blockTimestamp) : null,
+    createdAt: new Date(event.createdAt),
+    updatedAt: new Date(event.updatedAt),
+    removed: true,
+  };
+};
+
+// Live events and indexing status changes for GraphQL subscriptions
+export class SubscriptionService {
+  /**
+   * Publish events that were just stored. Called by storeEvents, or by the caller once
+   * the transaction that stored them commits.
+   */
+  static publishEvents(events: Event[]) {
+    for (const event of events) {
+      if (state.published.has(event.id)) continue;
+      state.published.set(event.id, event.createdAt.getTime());
+      state.emitter.emit(EVENT_ADDED, event);
+    }
+  }
+
+  /**
+   * Publish events a reorg rollback removed, once its transaction commits
+   */
+  static publishRemovedEvents(events: Event[]) {
+    for (const event of events) {
+      const key = removedKey(event.id);
+      if (state.published.has(key)) continue;
+      state.published.set(key, Date.now());
+      state.emitter.emit(EVENT_ADDED, { ...event, removed: true });
+    }
+  }
+
+  /**
+   * Inside the rollback transaction: keep a copy of the removed events for relays in
+   * other processes, and prune copies no relay still needs
+   */
+  static async recordRemovedEvents(tx: Prisma.TransactionClient, events: Event[]) {
+    await tx.removedEvent.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - REMOVED_EVENT_RETENTION_MS) } },
+    });
+
+    if (events.length === 0) return;
+
+    await tx.removedEvent.createMany({
+      data: events.map(event => ({
+        eventId: event.id,
+        network: event.network,
+        event: JSON.parse(JSON.stringify(event, (_, value) => typeof value === 'bigint' ? value.toString() : value)),
+      })),
+    });
+  }
+
+  static publishStatus(status: IndexingStatus) {
+    const key = statusKey(status);
+    if (state.published.has(key)) return;
+    state.published.set(key, status.updatedAt.getTime());
+    state.emitter.emit(INDEXING_STATUS_CHANGED, status);
+  }
+
+  /**
+   * Async iterator over a topic's payloads that match the filter, as expected by GraphQL subscribe.
+   * The relay runs while anything is subscribed.
+   */
+  static subscribe<T extends Topic>(
+    topic: T,
+    filter: (payload: TopicPayloads[T]) => boolean = () => true
+  ): AsyncIterableIterator<TopicPayloads[T]> {
+    const queue: TopicPayloads[T][] = [];
+    const waiting: ((result: IteratorResult<TopicPayloads[T]>) => void)[] = [];
+    let done = false;
+
+    const listener = (payload: TopicPayloads[T]) => {
+      if (!filter(payload)) return;
+
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve({ value: payload, done: false });
+      } else {
+        queue.push(payload);
+      }
+    };
+
+    const stop = () => {
+      if (done) return;
+      done = true;
+      state.emitter.off(topic, listener);
+      waiting.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+      this.releaseRelay();
+    };
+
+    state.emitter.on(topic, listener);
+    this.retainRelay();
+
+    return {
+      next: () => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => waiting.push(resolve));
+      },
+      return: () => {
+        stop();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      throw: (error?: unknown) => {
+        stop();
+        return Promise.reject(error);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  private static retainRelay() {
+    state.subscribers += 1;
+    if (state.relay) return;
+
+    // Only rows written from now on are relayed
+    state.relayStartedAt = new Date();
+    state.eventCursor = state.relayStartedAt;
+    state.statusCursor = state.relayStartedAt;
+    state.eventScan = null;
+    state.removedScan = null;
+    state.relay = setInterval(() => {
+      this.relayChanges().catch(error => console.error('Error relaying subscription changes:', error));
+    }, RELAY_POLL_INTERVAL_MS);
+  }
+
+  private static releaseRelay() {
+    state.subscribers = Math.max(0, state.subscribers - 1);
+    if (state.subscribers > 0 || !state.relay) return;
+
+    clearInterval(state.relay);
+    state.relay = null;
+    state.published.clear();
+  }
+
+  /**
+   * Publish events and status changes stored by other processes. The worker indexes in its
+   * own process, so its writes can only reach this process through the database.
+   */
+  static async relayChanges() {
+    // Loaded lazily since storeEvents publishes through this service
+    const { prisma } = await import('./database');
+
+    const windowStart = (cursor: Date) =>
+      new Date(Math.max(cursor.getTime() - RELAY_LOOKBACK_MS, state.relayStartedAt.getTime()));
+    const eventWindow = windowStart(state.eventCursor);
+    const statusWindow = windowStart(state.statusCursor);
+
+    // Events and removals are read a page per poll in (createdAt, id) order. Each sweep
+    // restarts from the window once it reaches the end, picking up late commits.
+    const [recentEvents, removedEvents, statuses] = await Promise.all([
+      prisma.event.findMany({
+        where: scanWhere(eventWindow, state.eventScan),
+        select: { id: true, createdAt: true },
+        orderBy: scanOrder,
+        take: RELAY_BATCH_SIZE,
+      }),
+      prisma.removedEvent.findMany({
+        where: scanWhere(eventWindow, state.removedScan),
+        orderBy: scanOrder,
+        take: RELAY_BATCH_SIZE,
+      }),
+      prisma.indexingStatus.findMany({
+        where: { updatedAt: { gte: statusWindow } },
+        orderBy: { updatedAt: 'asc' },
+      }),
+    ]);
+
+    const unpublished = recentEvents.filter(event => !state.published.has(event.id));
+    if (unpublished.length > 0) {
+      const events = await prisma.event.findMany({
+        where: { id: { in: unpublished.map(event => event.id) } },
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+      });
+      this.publishEvents(events);
+    }
+
+    state.eventScan = nextScan(recentEvents);
+    if (recentEvents.length > 0) {
+      const latest = recentEvents[recentEvents.length - 1].createdAt;
+      if (latest > state.eventCursor) state.eventCursor = latest;
+    }
+
+    for (const removed of removedEvents) {
+      const key = removedKey(removed.eventId);
+      if (state.published.has(key)) continue;
+      state.published.set(key, removed.createdAt.getTime());
+      state.emitter.emit(EVENT_ADDED, toRemovedEvent(removed.event));
+    }
+    state.removedScan = nextScan(removedEvents);
+
+    statuses.forEach(status => this.publishStatus(status));
+    if (statuses.length > 0) {
+      const latest = statuses[statuses.length - 1].updatedAt;
+      if (latest > state.statusCursor) state.statusCursor = latest;
+    }
+
+    // Rows written before both windows can't be fetched again
+    const cutoff = Math.min(eventWindow.getTime(), statusWindow.getTime());
+    for (const [key, writtenAt] of state.published) {
+      if (writtenAt < cutoff) state.published.delete(key);
+    }
+  }
+}
@@ -0,0 +1,540 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { isAddress, isHex } from 'viem';
+import { prisma, normalizeAddress } from './database';
+import type { DecodedArgs } from './decoder';
+import { Prisma, type Event, type Webhook, type WebhookDelivery } from '../generated/prisma';
+
+// Failed deliveries are retried with exponential backoff, then moved to the dead-letter list
+const WEBHOOK_RETRY_BASE_DELAY_MS = 10 * 1000;
+const WEBHOOK_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Webhooks are managed through unauthenticated mutations, so receivers on loopback and
+// private networks are refused unless enabled, e.g. for a local test receiver
+const ALLOW_PRIVATE_WEBHOOK_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// Deliveries sent per call so a slow receiver doesn't starve the rest of the worker loop
+const WEBHOOK_DELIVERY_BATCH_SIZE = 50;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export type WebhookDeliveryType = 'event.added' | 'event.removed';
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+// An event matches when its decoded argument equals the value (addresses and other hex case-insensitively)
+export interface WebhookArgFilter {
+  name: string;
+  value: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  // Generated when not given
+  secret?: string;
+  contractAddress?: string | null;
+  network?: string | null;
+  eventNames?: string[];
+  argFilters?: WebhookArgFilter[];
+  isActive?: boolean;
+}
+
+// Result of a single POST to a receiver
+export interface WebhookSendResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+const nextAttemptAt = (attempts: number) => {
+  const delay = Math.min(WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+  return new Date(Date.now() + delay);
+};
+
+// BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+const isPrivateAddress = (address: string) =>
+  privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// A receiver URL that may be called, with the addresses it was checked against, or why not
+type ReceiverResolution =
+  | { blocked: null; addresses: LookupAddress[] | null }
+  | { blocked: string; addresses: null };
+
+/**
+ * Resolve a receiver URL's host and refuse names pointing at loopback or private addresses.
+ * The checked addresses are returned so the request connects to them rather than resolving
+ * the host again; with private URLs allowed nothing is checked and addresses is null.
+ */
+const resolveReceiver = async (url: URL): Promise<ReceiverResolution> => {
+  if (ALLOW_PRIVATE_WEBHOOK_URLS) return { blocked: null, addresses: null };
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const privateReason = `Webhook URL must not point to a loopback or private address: ${url.hostname}`;
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return { blocked: privateReason, addresses: null };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true });
+  } catch {
+    return { blocked: `Webhook URL host could not be resolved: ${url.hostname}`, addresses: null };
+  }
+
+  if (addresses.length === 0 || addresses.some(result => isPrivateAddress(result.address))) {
+    return { blocked: privateReason, addresses: null };
+  }
+  return { blocked: null, addresses };
+};
+
+// Answers the request's host lookup with the checked addresses, so a second DNS answer
+// can't point the connection somewhere else
+const pinnedLookup = (addresses: LookupAddress[]): LookupFunction => (_hostname, options, callback) => {
+  const candidates = options.family === 4 || options.family === 6
+    ? addresses.filter(result => result.family === options.family)
+    : addresses;
+  if (candidates.length === 0) {
+    callback(Object.assign(new Error('No checked address for the requested family'), { code: 'ENOTFOUND' }), '', 0);
+  } else if (options.all) {
+    callback(null, candidates);
+  } else {
+    callback(null, candidates[0].address, candidates[0].family);
+  }
+};
+
+const validateWebhookInput = async (input: Partial<WebhookInput>) => {
+  if (input.url != null) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${input.url}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`Webhook URL must use http or https: ${input.url}`);
+    }
+
+    const { blocked } = await resolveReceiver(url);
+    if (blocked) {
+      throw new Error(blocked);
+    }
+  }
+
+  if (input.secret != null && input.secret.length < 16) {
+    throw new Error('Webhook secret must be at least 16 characters');
+  }
+
+  if (input.contractAddress != null && !isAddress(input.contractAddress, { strict: false })) {
+    throw new Error(`Invalid contract address: ${input.contractAddress}`);
+  }
+
+  for (const filter of input.argFilters ?? []) {
+    if (!filter.name) {
+      throw new Error('Argument filters need an argument name');
+    }
+  }
+};
+
+// Decoded values are stored as strings, numbers, booleans or arrays of them. Only hex
+// values such as addresses differ in case alone; anything else must match exactly.
+const argValueMatches = (value: unknown, expected: string) => {
+  const actual = typeof value === 'string' ? value : JSON.stringify(value);
+  if (actual === expected) return true;
+  return isHex(actual) && isHex(expected) && actual.toLowerCase() === expected.toLowerCase();
+};
+
+// Outbound event notifications with signed payloads, retries and a dead-letter list
+export class WebhookService {
+  static async createWebhook(input: WebhookInput) {
+    await validateWebhookInput(input);
+
+    const secret = input.secret ?? randomBytes(32).toString('hex');
+    const webhook = await prisma.webhook.create({
+      data: {
+        url: input.url,
+        secret,
+        contractAddress: input.contractAddress ? normalizeAddress(input.contractAddress) : null,
+        network: input.network ?? null,
+        eventNames: input.eventNames ?? [],
+        argFilters: (input.argFilters ?? []) as unknown as Prisma.InputJsonValue,
+        isActive: input.isActive ?? true,
+      },
+    });
+
+    return { webhook, secret };
+  }
+
+  static async updateWebhook(id: string, input: Partial<WebhookInput>) {
+    await validateWebhookInput(input);
+
+    return await prisma.webhook.update({
+      where: { id },
+      data: {
+        ...(input.url != null && { url: input.url }),
+        ...(input.secret != null && { secret: input.secret }),
+        // Null clears the contract or network filter
+        ...(input.contractAddress !== undefined && {
+          contractAddress: input.contractAddress ? normalizeAddress(input.contractAddress) : null,
+        }),
+        ...(input.network !== undefined && { network: input.network }),
+        ...(input.eventNames != null && { eventNames: input.eventNames }),
+        ...(input.argFilters != null && { argFilters: input.argFilters as unknown as Prisma.InputJsonValue }),
+        ...(input.isActive != null && { isActive: input.isActive }),
+      },
+    });
+  }
+
+  static async deleteWebhook(id: string) {
+    await prisma.webhook.delete({ where: { id } });
+    return true;
+  }
+
+  static async getWebhooks() {
+    return await prisma.webhook.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  static async getWebhook(id: string) {
+    return await prisma.webhook.findUnique({ where: { id } });
+  }
+
+  /**
+   * Whether a stored event passes a webhook's contract, network, event and argument filters
+   */
+  static matches(webhook: Webhook, event: Event) {
+    if (webhook.contractAddress && webhook.contractAddress !== event.contractAddress) return false;
+    if (webhook.network && webhook.network !== event.network) return false;
+    if (webhook.eventNames.length > 0 && !webhook.eventNames.includes(event.eventName)) return false;
+
+    const args = (event.args ?? {}) as unknown as DecodedArgs;
+    const argFilters = webhook.argFilters as unknown as WebhookArgFilter[];
+    return argFilters.every(filter => filter.name in args && argValueMatches(args[filter.name].value, filter.value));
+  }
+
+  /**
+   * Queue a delivery per matching webhook for events that were just stored
+   */
+  static async enqueueDeliveries(events: Event[]) {
+    if (events.length === 0) return 0;
+
+    const webhooks = await prisma.webhook.findMany({ where: { isActive: true } });
+    if (webhooks.length === 0) return 0;
+
+    const deliveries = webhooks.flatMap(webhook => events
+      .filter(event => this.matches(webhook, event))
+      .map(event => ({
+        webhookId: webhook.id,
+        eventId: event.id,
+        payload: this.buildPayload(event) as Prisma.InputJsonValue,
+      }))
+    );
+    if (deliveries.length === 0) return 0;
+
+    const result = await prisma.webhookDelivery.createMany({
+      data: deliveries,
+      skipDuplicates: true,
+    });
+
+    console.log(`Queued ${result.count} webhook deliveries for ${events.length} events`);
+    return result.count;
+  }
+
+  /**
+   * Inside the rollback transaction, before the orphaned events are deleted: drop their
+   * unsent deliveries and queue an event.removed delivery wherever one was already attempted
+   */
+  static async queueRemovals(tx: Prisma.TransactionClient, events: Event[]) {
+    if (events.length === 0) return 0;
+
+    const eventIds = events.map(event => event.id);
+    const attempted = await tx.webhookDelivery.findMany({
+      where: {
+        eventId: { in: eventIds },
+        type: 'event.added',
+        attempts: { gt: 0 },
+      },
+      select: { webhookId: true, eventId: true },
+    });
+
+    await tx.webhookDelivery.deleteMany({
+      where: {
+        eventId: { in: eventIds },
+        type: 'event.added',
+        status: 'pending',
+      },
+    });
+
+    if (attempted.length === 0) return 0;
+
+    const eventsById = new Map(events.map(event => [event.id, event]));
+    const result = await tx.webhookDelivery.createMany({
+      data: attempted.map(delivery => ({
+        webhookId: delivery.webhookId,
+        eventId: delivery.eventId,
+        type: 'event.removed',
+        payload: this.buildPayload(eventsById.get(delivery.eventId)!, 'event.removed') as Prisma.InputJsonValue,
+      })),
+      skipDuplicates: true,
+    });
+
+    return result.count;
+  }
+
+  static buildPayload(event: Event, type: WebhookDeliveryType = 'event.added') {
+    const args = (event.args ?? {}) as unknown as DecodedArgs;
+
+    return {
+      type,
+      event: {
+        id: event.id,
+        network: event.network,
+        contractAddress: event.contractAddress,
+        eventName: event.eventName,
+        blockNumber: event.blockNumber.toString(),
+        blockHash: event.blockHash,
+        blockTimestamp: event.blockTimestamp?.toISOString() ?? null,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        // pending, confirmed or finalized when the event was stored
+        status: event.status,
+        // The block this event was in was orphaned by a reorg
+        removed: type === 'event.removed',
+        args: Object.fromEntries(Object.entries(args).map(([name, arg]) => [name, arg.value])),
+      },
+    };
+  }
+
+  /**
+   * Signature over "<timestamp>.<body>", sent as X-Webhook-Signature: sha256=<hex>
+   */
+  static sign(secret: string, timestamp: string, body: string) {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Check a received signature; for receivers and tests
+   */
+  static verifySignature(secret: string, timestamp: string, body: string, signature: string) {
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * POST a signed payload to a receiver, connecting to the given checked addresses if any.
+   * Any 2xx response counts as delivered. Redirects are not followed, since their target
+   * hasn't been checked, and count as failed attempts.
+   */
+  static async send(
+    target: { id: string; url: string; secret: string },
+    deliveryId: string,
+    payload: unknown,
+    addresses: LookupAddress[] | null = null
+  ): Promise<WebhookSendResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const url = new URL(target.url);
+
+    try {
+      const response = await new Promise<{ status: number; statusText: string; location?: string }>((resolve, reject) => {
+        const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            'X-Webhook-Id': target.id,
+            'X-Webhook-Delivery': deliveryId,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': this.sign(target.secret, timestamp, body),
+          },
+          ...(addresses && { lookup: pinnedLookup(addresses) }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        }, res => {
+          // The response body isn't used; drain it so the socket is released
+          res.resume();
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, statusText: res.statusMessage ?? '', location: res.headers.location }));
+          res.on('error', reject);
+        });
+        request.on('error', reject);
+        request.end(body);
+      });
+
+      const ok = response.status >= 200 && response.status < 300;
+      const redirected = response.status >= 300 && response.status < 400;
+      return {
+        ok,
+        status: response.status,
+        error: ok
+          ? null
+          : redirected
+            ? `Receiver redirected with ${response.status} to ${response.location ?? 'an unknown location'}; redirects are not followed`
+            : `Receiver responded with ${response.status} ${response.statusText}`.trim(),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        status: null,
+        error: error instanceof Error ? error.message : 'Webhook request failed',
+      };
+    }
+  }
+
+  /**
+   * Send one delivery and record the outcome, scheduling a retry or dead-lettering it
+   */
+  static async deliver(delivery: WebhookDelivery & { webhook: Webhook }) {
+    // Checked again on every attempt, since the host may resolve elsewhere by now
+    const { blocked, addresses } = await resolveReceiver(new URL(delivery.webhook.url));
+    const result = blocked
+      ? { ok: false, status: null, error: blocked }
+      : await this.send(delivery.webhook, delivery.id, delivery.payload, addresses);
+    const attempts = delivery.attempts + 1;
+
+    if (result.ok) {
+      return await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'delivered',
+          attempts,
+          responseStatus: result.status,
+          lastError: null,
+          deliveredAt: new Date(),
+        },
+      });
+    }
+
+    const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    if (exhausted) {
+      console.warn(`Webhook delivery ${delivery.id} to ${delivery.webhook.url} failed ${attempts} times, moved to dead letters: ${result.error}`);
+    }
+
+    return await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'dead' : 'pending',
+        attempts,
+        responseStatus: result.status,
+        lastError: result.error,
+        ...(!exhausted && { nextAttemptAt: nextAttemptAt(attempts) }),
+      },
+    });
+  }
+
+  /**
+   * Send pending deliveries whose backoff has elapsed, for active webhooks only
+   */
+  static async deliverDue(limit: number = WEBHOOK_DELIVERY_BATCH_SIZE) {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() },
+        webhook: { isActive: true },
+      },
+      include: { webhook: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    let delivered = 0;
+    for (const delivery of deliveries) {
+      const updated = await this.deliver(delivery);
+      if (updated.status === 'delivered') delivered += 1;
+    }
+
+    return { attempted: deliveries.length, delivered };
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  static async getDeliveries(webhookId: string, options: { status?: WebhookDeliveryStatus; limit?: number } = {}) {
+    return await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId,
+        ...(options.status && { status: options.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50,
+    });
+  }
+
+  /**
+   * Deliveries that exhausted their retries, across webhooks unless one is given
+   */
+  static async getDeadLetters(webhookId?: string, limit: number = 50) {
+    return await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'dead',
+        ...(webhookId && { webhookId }),
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Queue a delivery again with a fresh set of attempts, e.g. from the dead-letter list
+   */
+  static async redeliver(deliveryId: string) {
+    return await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Serialize a webhook for the GraphQL layer; the secret is only returned on creation
+   */
+  static formatWebhook(webhook: Webhook) {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      contractAddress: webhook.contractAddress,
+      network: webhook.network,
+      eventNames: webhook.eventNames,
+      argFilters: webhook.argFilters as unknown as WebhookArgFilter[],
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt.toISOString(),
+      updatedAt: webhook.updatedAt.toISOString(),
+    };
+  }
+
+  static formatDelivery(delivery: WebhookDelivery) {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      eventId: delivery.eventId,
+      type: delivery.type,
+      payload: JSON.stringify(delivery.payload),
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt.toISOString() : null,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      createdAt: delivery.createdAt.toISOString(),
+    };
+  }
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useForm } from "react-hook-form";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import EventsDisplay from "@/components/EventsDisplay";
 
@@ -9,7 +9,7 @@ interface IndexerFormData {
   contractAddress: string;
   contractABI: string;
   eventsToTrack: string[];
-  network: 'mainnet' | 'sepolia';
+  network: string;
   fromBlock: string;
   toBlock: string;
 }
@@ -27,10 +27,36 @@ interface EventLog {
   eventName?: string;
 }
 
+interface IndexingJobProgress {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  totalBlocks: string;
+  blocksProcessed: string;
+  percentComplete: number;
+  eventsFound: number;
+  failedChunks: number;
+  error: string | null;
+  // Failed ranges in the job that the worker is still retrying
+  openGaps?: number;
+}
+
+// A finished chunk reported by the job stream
+interface JobChunkProgress {
+  fromBlock: string;
+  toBlock: string;
+  status: string;
+  eventsFound: number;
+  error: string | null;
+}
+
 interface IndexerResponse {
   success: boolean;
   events?: EventLog[];
+  jobId?: string;
+  job?: IndexingJobProgress;
   error?: string;
+  // Set instead of a job when a resumed range is already indexed
+  message?: string;
   metadata?: {
     contractAddress: string;
     eventsTracked: string[];
@@ -43,6 +69,114 @@ interface IndexerResponse {
   };
 }
 
+// The worker is considered live if it checkpointed within this window
+const WORKER_HEARTBEAT_TIMEOUT_MS = 2 * 60 * 1000;
+const WORKER_STATUS_POLL_INTERVAL_MS = 10 * 1000;
+
+// Stored events fetched per request while loading a finished job's events
+const JOB_EVENTS_PAGE_SIZE = 500;
+
+interface StoredJobEvent {
+  contractAddress: string;
+  indexedParams: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+  eventName: string;
+}
+
+// Load every event a finished job stored, page by page, shaped like raw indexer logs
+const fetchJobEvents = async (data: IndexerFormData, blockRange: { from: string; to: string }): Promise<EventLog[]> => {
+  const storedEvents: StoredJobEvent[] = [];
+  let after: string | null = null;
+
+  do {
+    const response = await fetch('/api/graphql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: `
+          query GetJobEvents($filters: EventFilters, $first: Int, $after: String) {
+            getEvents(filters: $filters, first: $first, after: $after) {
+              edges {
+                node {
+                  contractAddress
+                  indexedParams
+                  data
+                  blockNumber
+                  blockHash
+                  transactionHash
+                  transactionIndex
+                  logIndex
+                  eventName
+                }
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        `,
+        variables: {
+          filters: {
+            contractAddress: data.contractAddress,
+            network: data.network,
+            fromBlock: blockRange.from,
+            toBlock: blockRange.to,
+            ...(data.eventsToTrack.length > 0 && { eventNames: data.eventsToTrack }),
+          },
+          first: JOB_EVENTS_PAGE_SIZE,
+          after,
+        },
+      }),
+    });
+
+    const result = await response.json();
+    if (result.errors?.length) {
+      throw new Error(result.errors[0].message);
+    }
+
+    const connection: { edges: { node: StoredJobEvent }[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } } = result.data.getEvents;
+    storedEvents.push(...connection.edges.map(edge => edge.node));
+    after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  } while (after);
+
+  return storedEvents.map(event => ({
+    address: event.contractAddress,
+    topics: event.indexedParams,
+    data: event.data,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    transactionIndex: String(event.transactionIndex),
+    blockHash: event.blockHash,
+    logIndex: String(event.logIndex),
+    removed: false,
+    eventName: event.eventName,
+  }));
+};
+
+interface ChainOption {
+  name: string;
+  chainId: number;
+}
+
+// Shown until the Chain table has been loaded
+const DEFAULT_CHAIN_OPTIONS: ChainOption[] = [
+  { name: 'sepolia', chainId: 11155111 },
+  { name: 'mainnet', chainId: 1 },
+];
+
+interface WorkerStatus {
+  lastIndexedBlock: string;
+  lastIndexedAt: string;
+}
+
 export default function Dashboard() {
   const [isListening, setIsListening] = useState(false);
   const [submittedData, setSubmittedData] = useState<IndexerFormData | null>(null);
@@ -50,6 +184,10 @@ export default function Dashboard() {
   const [currentEvent, setCurrentEvent] = useState("");
   const [indexerResults, setIndexerResults] = useState<IndexerResponse | null>(null);
   const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [workerStatus, setWorkerStatus] = useState<WorkerStatus | null>(null);
+  const [jobProgress, setJobProgress] = useState<IndexingJobProgress | null>(null);
+  const [lastChunk, setLastChunk] = useState<JobChunkProgress | null>(null);
+  const [chainOptions, setChainOptions] = useState<ChainOption[]>(DEFAULT_CHAIN_OPTIONS);
   
   // Smart range state
   const [smartRangeInfo, setSmartRangeInfo] = useState<{
@@ -80,6 +218,148 @@ export default function Dashboard() {
   const watchedContractAddress = watch("contractAddress");
   const watchedNetwork = watch("network");
 
+  // Load supported networks from the Chain table
+  useEffect(() => {
+    const fetchChains = async () => {
+      try {
+        const response = await fetch('/api/graphql', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            query: `
+              query GetChains {
+                chains {
+                  name
+                  chainId
+                }
+              }
+            `,
+          }),
+        });
+
+        const result = await response.json();
+        if (result.data?.chains?.length) {
+          setChainOptions(result.data.chains);
+        }
+      } catch (error) {
+        console.error('Error fetching chains:', error);
+      }
+    };
+
+    fetchChains();
+  }, []);
+
+  // Poll the background worker's checkpoint for the submitted contract
+  useEffect(() => {
+    if (!isListening || !submittedData) {
+      setWorkerStatus(null);
+      return;
+    }
+
+    const fetchWorkerStatus = async () => {
+      try {
+        const response = await fetch('/api/graphql', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            query: `
+              query GetIndexingStatus($contractAddress: String, $network: String) {
+                getIndexingStatus(contractAddress: $contractAddress, network: $network) {
+                  lastIndexedBlock
+                  lastIndexedAt
+                }
+              }
+            `,
+            variables: {
+              contractAddress: submittedData.contractAddress,
+              network: submittedData.network,
+            },
+          }),
+        });
+
+        const result = await response.json();
+        setWorkerStatus(result.data?.getIndexingStatus?.[0] ?? null);
+      } catch (error) {
+        console.error('Error fetching worker status:', error);
+      }
+    };
+
+    fetchWorkerStatus();
+    const interval = setInterval(fetchWorkerStatus, WORKER_STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isListening, submittedData]);
+
+  // Stream the queued job's progress and events; the full list loads once it finishes
+  // Keyed on the job id alone so the stream stays open until its summary arrives
+  const streamingJobId = jobProgress?.id ?? null;
+  const jobBlockRange = indexerResults?.metadata?.blockRange;
+
+  useEffect(() => {
+    if (!streamingJobId || !submittedData || !jobBlockRange) return;
+
+    const source = new EventSource(`/api/indexer/jobs/${streamingJobId}/stream`);
+
+    source.addEventListener('chunk', (message: MessageEvent) => {
+      setLastChunk(JSON.parse(message.data));
+    });
+
+    source.addEventListener('events', (message: MessageEvent) => {
+      const { events: chunkEvents }: { events: EventLog[] } = JSON.parse(message.data);
+      if (chunkEvents.length === 0) return;
+
+      setIndexerResults(prev => prev && {
+        ...prev,
+        events: [...(prev.events ?? []), ...chunkEvents],
+      });
+      setIsLoadingEvents(false);
+    });
+
+    source.addEventListener('progress', (message: MessageEvent) => {
+      setJobProgress(prev => prev && { ...prev, ...JSON.parse(message.data) });
+    });
+
+    source.addEventListener('summary', async (message: MessageEvent) => {
+      // Closing first stops the browser from reconnecting to a finished stream
+      source.close();
+      const summary: { job: IndexingJobProgress; openGaps: number } = JSON.parse(message.data);
+      setJobProgress({ ...summary.job, openGaps: summary.openGaps });
+      setLastChunk(null);
+
+      try {
+        const jobEvents = await fetchJobEvents(submittedData, jobBlockRange);
+        setIndexerResults(prev => prev && {
+          ...prev,
+          events: jobEvents,
+          metadata: prev.metadata && { ...prev.metadata, totalEvents: summary.job.eventsFound },
+        });
+      } catch (error) {
+        console.error('Error loading job events:', error);
+      } finally {
+        setIsLoadingEvents(false);
+      }
+    });
+
+    source.addEventListener('error', (message: Event) => {
+      // Server-sent error events carry a message; connection errors don't
+      if (message instanceof MessageEvent) {
+        source.close();
+        const { error } = JSON.parse(message.data);
+        console.error('Error streaming indexing job:', error);
+        setJobProgress(prev => prev && { ...prev, error });
+        setIsLoadingEvents(false);
+      }
+    });
+
+    return () => source.close();
+  }, [streamingJobId, submittedData, jobBlockRange]);
+
+  const isWorkerLive = workerStatus !== null &&
+    Date.now() - new Date(workerStatus.lastIndexedAt).getTime() < WORKER_HEARTBEAT_TIMEOUT_MS;
+
   // Smart range detection function
   const detectSmartRange = async () => {
     if (!watchedContractAddress) {
@@ -106,7 +386,7 @@ export default function Dashboard() {
         body: JSON.stringify({
           query: `
             query GetEventsSmartRange($contractAddress: String!, $network: String!) {
-              getEventsSmartRange(contractAddress: $contractAddress, network: $network, pagination: { page: 1, limit: 1 }) {
+              getEventsSmartRange(contractAddress: $contractAddress, network: $network, first: 1) {
                 rangeInfo {
                   fromBlock
                   toBlock
@@ -204,8 +484,14 @@ export default function Dashboard() {
       
       if (!result.success) {
         console.error('Indexer Error:', result.error);
+        setIsLoadingEvents(false);
+      } else if (!result.job) {
+        console.log(result.message);
+        setIsLoadingEvents(false);
       } else {
-        console.log('Indexer Success:', result);
+        console.log('Indexing job queued:', result.jobId);
+        // Events stream in as the job's chunks are indexed
+        setJobProgress(result.job);
       }
       
     } catch (error) {
@@ -214,7 +500,6 @@ export default function Dashboard() {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       });
-    } finally {
       setIsLoadingEvents(false);
     }
   };
@@ -225,6 +510,9 @@ export default function Dashboard() {
     setEvents([]);
     setCurrentEvent("");
     setIndexerResults(null);
+    setJobProgress(null);
+    setLastChunk(null);
+    setIsLoadingEvents(false);
     reset();
   };
 
@@ -384,8 +672,11 @@ export default function Dashboard() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
                   disabled={isListening}
                 >
-                  <option value="sepolia">Sepolia Testnet</option>
-                  <option value="mainnet">Ethereum Mainnet</option>
+                  {chainOptions.map(chain => (
+                    <option key={chain.name} value={chain.name}>
+                      {chain.name} (chain {chain.chainId})
+                    </option>
+                  ))}
                 </select>
                 {errors.network && (
                   <p className="mt-1 text-sm text-red-600">{errors.network.message}</p>
@@ -445,7 +736,7 @@ export default function Dashboard() {
                       required: "From block is required"
                     })}
                     type="text"
-                    placeholder="6000000 (or 'earliest')"
+                    placeholder="6000000 (or 'earliest', 'resume')"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
                     disabled={isListening}
                   />
@@ -519,10 +810,53 @@ export default function Dashboard() {
               </div>
             ) : (
               <div>
-                <div className="flex items-center mb-4">
-                  <div className="w-3 h-3 bg-green-500 rounded-full mr-3 animate-pulse"></div>
-                  <span className="text-green-600 font-medium">Indexing Active</span>
-                </div>
+                {isWorkerLive ? (
+                  <div className="flex items-center mb-4">
+                    <div className="w-3 h-3 bg-green-500 rounded-full mr-3 animate-pulse"></div>
+                    <span className="text-green-600 font-medium">Indexing Active</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center mb-4">
+                    <div className="w-3 h-3 bg-yellow-500 rounded-full mr-3"></div>
+                    <span className="text-yellow-700 font-medium">Waiting for background worker</span>
+                  </div>
+                )}
+
+                {jobProgress && (
+                  <div className="mb-4">
+                    <div className="flex justify-between text-sm text-gray-700 mb-1">
+                      <span>Backfill job: {jobProgress.status}</span>
+                      <span>{jobProgress.percentComplete.toFixed(1)}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${jobProgress.failedChunks > 0 ? 'bg-red-500' : 'bg-blue-600'}`}
+                        style={{ width: `${jobProgress.percentComplete}%` }}
+                      ></div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {jobProgress.blocksProcessed} / {jobProgress.totalBlocks} blocks · {jobProgress.eventsFound} events
+                      {jobProgress.failedChunks > 0 && ` · ${jobProgress.failedChunks} failed chunks`}
+                      {!!jobProgress.openGaps && ` · ${jobProgress.openGaps} block ranges pending retry`}
+                    </p>
+                    {lastChunk && (
+                      <p className={`text-xs mt-1 font-mono ${lastChunk.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                        Blocks {lastChunk.fromBlock}-{lastChunk.toBlock}:{' '}
+                        {lastChunk.status === 'failed' ? lastChunk.error : `${lastChunk.eventsFound} events`}
+                      </p>
+                    )}
+                    {jobProgress.error && (
+                      <p className="text-xs text-red-600 mt-1">{jobProgress.error}</p>
+                    )}
+                  </div>
+                )}
+
+                {workerStatus && (
+                  <p className="text-sm text-gray-600 mb-4">
+                    Last indexed block <span className="font-mono">{workerStatus.lastIndexedBlock}</span> at{' '}
+                    {new Date(workerStatus.lastIndexedAt).toLocaleTimeString()}
+                  </p>
+                )}
                 
                 {submittedData && (
                   <div className="space-y-4">
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."BlockHeader" (
+    "id" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "parentHash" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockHeader_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BlockHeader_network_idx" ON "public"."BlockHeader"("network");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockHeader_network_blockNumber_key" ON "public"."BlockHeader"("network", "blockNumber");
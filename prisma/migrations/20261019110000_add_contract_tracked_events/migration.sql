@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Contract" ADD COLUMN     "trackedEvents" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "public"."IndexingJob" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "eventsToTrack" TEXT[],
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "blocksProcessed" BIGINT NOT NULL DEFAULT 0,
+    "eventsFound" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."IndexingJobChunk" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "eventsFound" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexingJobChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IndexingJob_status_idx" ON "public"."IndexingJob"("status");
+
+-- CreateIndex
+CREATE INDEX "IndexingJob_contractAddress_network_idx" ON "public"."IndexingJob"("contractAddress", "network");
+
+-- CreateIndex
+CREATE INDEX "IndexingJobChunk_jobId_status_idx" ON "public"."IndexingJobChunk"("jobId", "status");
+
+-- CreateIndex
+CREATE INDEX "IndexingJobChunk_status_idx" ON "public"."IndexingJobChunk"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."IndexingJobChunk" ADD CONSTRAINT "IndexingJobChunk_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."IndexingJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "Chain_name_key" ON "public"."Chain"("name");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Chain" ADD COLUMN     "rpcUrls" TEXT[] DEFAULT ARRAY[]::TEXT[];
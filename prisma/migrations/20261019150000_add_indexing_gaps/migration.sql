@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."IndexingGap" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "eventNames" TEXT[],
+    "fromBlock" BIGINT NOT NULL,
+    "toBlock" BIGINT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "error" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "nextRetryAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexingGap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IndexingGap_contractAddress_network_status_idx" ON "public"."IndexingGap"("contractAddress", "network", "status");
+
+-- CreateIndex
+CREATE INDEX "IndexingGap_status_nextRetryAt_idx" ON "public"."IndexingGap"("status", "nextRetryAt");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."RpcBlockRange" (
+    "id" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "blockSpan" INTEGER NOT NULL,
+    "maxBlockSpan" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RpcBlockRange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RpcBlockRange_network_provider_key" ON "public"."RpcBlockRange"("network", "provider");
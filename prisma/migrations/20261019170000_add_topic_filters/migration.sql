@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Contract" ADD COLUMN     "topicFilters" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "anonymous" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."IndexingGap" ADD COLUMN     "topicFilters" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."IndexingJob" ADD COLUMN     "topicFilters" JSONB NOT NULL DEFAULT '[]';
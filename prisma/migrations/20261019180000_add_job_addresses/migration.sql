@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."IndexingJob" ADD COLUMN     "addresses" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."Contract" ADD COLUMN     "childAbi" JSONB,
+ADD COLUMN     "childTrackedEvents" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "creationBlock" BIGINT,
+ADD COLUMN     "factoryChildArg" TEXT,
+ADD COLUMN     "factoryEvent" TEXT,
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Contract_parentId_idx" ON "public"."Contract"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Contract" ADD CONSTRAINT "Contract_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."Contract"("id") ON DELETE SET NULL ON UPDATE CASCADE;
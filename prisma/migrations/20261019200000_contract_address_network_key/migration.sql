@@ -0,0 +1,50 @@
+-- DropIndex
+DROP INDEX "public"."Contract_address_key";
+
+-- Split contracts whose events span several networks (the same address indexed on another
+-- network overwrote the row) into one contract per network
+INSERT INTO "public"."Contract" ("id", "address", "name", "abi", "network", "trackedEvents", "topicFilters", "isActive", "factoryEvent", "factoryChildArg", "childAbi", "childTrackedEvents", "parentId", "creationBlock", "createdAt", "updatedAt")
+SELECT md5(c."id" || ':' || e."network"), c."address", c."name", c."abi", e."network", c."trackedEvents", c."topicFilters", c."isActive", c."factoryEvent", c."factoryChildArg", c."childAbi", c."childTrackedEvents", c."parentId", c."creationBlock", c."createdAt", CURRENT_TIMESTAMP
+FROM "public"."Contract" c
+JOIN (SELECT DISTINCT "contractId", "network" FROM "public"."Event") e ON e."contractId" = c."id"
+WHERE e."network" <> c."network";
+
+UPDATE "public"."Event" e
+SET "contractId" = md5(e."contractId" || ':' || e."network")
+FROM "public"."Contract" c
+WHERE e."contractId" = c."id" AND e."network" <> c."network";
+
+-- Merge contracts whose addresses differ only in case, keeping the oldest row
+CREATE TEMP TABLE "ContractMerge" AS
+SELECT c."id" AS "fromId", k."id" AS "toId"
+FROM "public"."Contract" c
+JOIN LATERAL (
+  SELECT o."id"
+  FROM "public"."Contract" o
+  WHERE lower(o."address") = lower(c."address") AND o."network" = c."network"
+  ORDER BY o."createdAt", o."id"
+  LIMIT 1
+) k ON k."id" <> c."id";
+
+UPDATE "public"."Event" e SET "contractId" = m."toId" FROM "ContractMerge" m WHERE e."contractId" = m."fromId";
+UPDATE "public"."Contract" c SET "parentId" = m."toId" FROM "ContractMerge" m WHERE c."parentId" = m."fromId";
+DELETE FROM "public"."Contract" WHERE "id" IN (SELECT "fromId" FROM "ContractMerge");
+DROP TABLE "ContractMerge";
+
+-- Normalize addresses to lowercase
+UPDATE "public"."Contract" SET "address" = lower("address");
+
+DELETE FROM "public"."IndexingStatus" s
+USING "public"."IndexingStatus" t
+WHERE lower(s."contractAddress") = lower(t."contractAddress")
+  AND s."network" = t."network"
+  AND s."id" <> t."id"
+  AND (s."lastIndexedBlock" < t."lastIndexedBlock" OR (s."lastIndexedBlock" = t."lastIndexedBlock" AND s."id" > t."id"));
+
+UPDATE "public"."IndexingStatus" SET "contractAddress" = lower("contractAddress");
+UPDATE "public"."IndexingJob" SET "contractAddress" = lower("contractAddress");
+UPDATE "public"."IndexingGap" SET "contractAddress" = lower("contractAddress");
+UPDATE "public"."Event" SET "contractAddress" = lower("contractAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contract_address_network_key" ON "public"."Contract"("address", "network");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."IndexingCheckpoint" (
+    "id" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "eventSet" TEXT NOT NULL,
+    "eventNames" TEXT[],
+    "lastScannedBlock" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexingCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IndexingCheckpoint_contractAddress_network_eventSet_key" ON "public"."IndexingCheckpoint"("contractAddress", "network", "eventSet");
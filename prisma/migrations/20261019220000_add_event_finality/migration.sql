@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Chain" ADD COLUMN     "confirmations" INTEGER NOT NULL DEFAULT 12,
+ADD COLUMN     "finalityDepth" INTEGER NOT NULL DEFAULT 64;
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'pending';
+
+-- CreateIndex
+CREATE INDEX "Event_network_status_blockNumber_idx" ON "public"."Event"("network", "status", "blockNumber");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Event_args_idx" ON "public"."Event" USING GIN ("args" jsonb_path_ops);
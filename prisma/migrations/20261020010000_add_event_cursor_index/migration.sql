@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Event_blockNumber_logIndex_id_idx" ON "public"."Event"("blockNumber", "logIndex", "id");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "public"."TrackedBlock" (
+    "id" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "parentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackedBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."RemovedEvent" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "event" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RemovedEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."WebhookDelivery" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'event.added';
+
+-- DropIndex
+DROP INDEX "public"."WebhookDelivery_webhookId_eventId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookDelivery_webhookId_eventId_type_key" ON "public"."WebhookDelivery"("webhookId", "eventId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackedBlock_network_blockNumber_key" ON "public"."TrackedBlock"("network", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "TrackedBlock_network_idx" ON "public"."TrackedBlock"("network");
+
+-- CreateIndex
+CREATE INDEX "RemovedEvent_createdAt_idx" ON "public"."RemovedEvent"("createdAt");
+
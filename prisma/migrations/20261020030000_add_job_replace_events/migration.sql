@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."IndexingJob" ADD COLUMN     "replaceEvents" BOOLEAN NOT NULL DEFAULT false;
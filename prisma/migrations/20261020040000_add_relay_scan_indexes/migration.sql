@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "public"."RemovedEvent_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "Event_createdAt_id_idx" ON "public"."Event"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "RemovedEvent_createdAt_id_idx" ON "public"."RemovedEvent"("createdAt", "id");
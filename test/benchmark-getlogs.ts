@@ -0,0 +1,233 @@
+// Benchmark: eth_getLogs calls needed to index a block range, one call per event
+// per batch (the previous behaviour) versus one call per batch for all tracked events.
+// Runs against a local stand-in RPC, no provider or API key needed:
+//   npx tsx test/benchmark-getlogs.ts
+// Both modes are compared at the same block span: the stand-in caps ranges at the legacy
+// batch size, so the combined filter must cut calls by exactly the number of events.
+// The adaptive span's growth on sparse batches is reported separately.
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  createPublicClient,
+  http,
+  encodeAbiParameters,
+  numberToHex,
+  hexToNumber,
+  pad,
+  toEventSelector,
+  Log,
+} from 'viem';
+import { IndexerService, ABIItem } from '../app/lib/indexer';
+
+const CONTRACT_ADDRESS = '0x1234567890123456789012345678901234567890';
+const FROM_BLOCK = BigInt(1);
+const TO_BLOCK = BigInt(20000);
+// Batch size of the previous implementation
+const LEGACY_BLOCKS_PER_REQUEST = BigInt(500);
+
+const abi: ABIItem[] = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'value' },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { type: 'address', name: 'owner', indexed: true },
+      { type: 'address', name: 'spender', indexed: true },
+      { type: 'uint256', name: 'value' },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Mint',
+    inputs: [
+      { type: 'address', name: 'to', indexed: true },
+      { type: 'uint256', name: 'amount' },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Burn',
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'uint256', name: 'amount' },
+    ],
+  },
+];
+
+const eventAbis = IndexerService.extractEventSignatures(abi, [])
+  .map(eventSig => IndexerService.toAbiEvent(eventSig.signature));
+const selectors = eventAbis.map(eventAbi => toEventSelector(eventAbi));
+
+// Event i is emitted in every block divisible by its period
+const EVENT_PERIODS = [7, 11, 13, 17];
+
+const syntheticLogs = (blockNumber: number) => {
+  const logs = [];
+  for (let i = 0; i < eventAbis.length; i++) {
+    if (blockNumber % EVENT_PERIODS[i] !== 0) continue;
+
+    const indexedCount = eventAbis[i].inputs.filter(input => input.indexed).length;
+    const blockHash = pad(numberToHex(blockNumber), { size: 32 });
+
+    logs.push({
+      address: CONTRACT_ADDRESS,
+      topics: [
+        selectors[i],
+        ...Array.from({ length: indexedCount }, (_, n) => pad(numberToHex(n + 1), { size: 32 })),
+      ],
+      data: encodeAbiParameters([{ type: 'uint256' }], [BigInt(blockNumber)]),
+      blockNumber: numberToHex(blockNumber),
+      blockHash,
+      transactionHash: pad(numberToHex(blockNumber * 10 + i), { size: 32 }),
+      transactionIndex: '0x0',
+      logIndex: numberToHex(i),
+      removed: false,
+    });
+  }
+  return logs;
+};
+
+let getLogsCalls = 0;
+// Ranges wider than this are rejected like a provider with a block span cap, null for no cap
+let maxBlockSpan: number | null = null;
+let rejectedCalls = 0;
+
+const handleRequest = (request: { id: number; method: string; params?: unknown[] }) => {
+  if (request.method === 'eth_chainId') {
+    return { jsonrpc: '2.0', id: request.id, result: '0x7a69' };
+  }
+
+  if (request.method === 'eth_getLogs') {
+    const [filter] = request.params as [{ fromBlock: `0x${string}`; toBlock: `0x${string}`; topics?: (string | string[] | null)[] }];
+    if (maxBlockSpan !== null && hexToNumber(filter.toBlock) - hexToNumber(filter.fromBlock) + 1 > maxBlockSpan) {
+      rejectedCalls += 1;
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32600, message: `exceed maximum block range: ${maxBlockSpan}` } };
+    }
+
+    getLogsCalls += 1;
+    const topic0 = filter.topics?.[0];
+    const allowed = topic0 == null ? null : new Set(Array.isArray(topic0) ? topic0 : [topic0]);
+
+    const logs = [];
+    for (let block = hexToNumber(filter.fromBlock); block <= hexToNumber(filter.toBlock); block++) {
+      logs.push(...syntheticLogs(block).filter(log => !allowed || allowed.has(log.topics[0])));
+    }
+    return { jsonrpc: '2.0', id: request.id, result: logs };
+  }
+
+  return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method ${request.method} not found` } };
+};
+
+const startStandInRpc = () => new Promise<ReturnType<typeof createServer>>(resolve => {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      const response = Array.isArray(payload) ? payload.map(handleRequest) : handleRequest(payload);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+// The previous fetch loop: the whole range is scanned once per event
+const fetchLogsPerEvent = async (client: ReturnType<typeof createPublicClient>) => {
+  const logs: Log[] = [];
+  for (const eventAbi of eventAbis) {
+    for (let from = FROM_BLOCK; from <= TO_BLOCK; from += LEGACY_BLOCKS_PER_REQUEST) {
+      const to = from + LEGACY_BLOCKS_PER_REQUEST - BigInt(1);
+      logs.push(...await client.getLogs({
+        address: CONTRACT_ADDRESS,
+        event: eventAbi,
+        fromBlock: from,
+        toBlock: to > TO_BLOCK ? TO_BLOCK : to,
+      }));
+    }
+  }
+  return logs;
+};
+
+const logKey = (log: Log) => `${log.transactionHash}:${log.logIndex}`;
+
+const main = async () => {
+  const server = await startStandInRpc();
+  const { port } = server.address() as AddressInfo;
+  const client = createPublicClient({ transport: http(`http://127.0.0.1:${port}`, { retryCount: 0 }) });
+
+  // Keep the indexer's per-batch logging, the rejected span increase and the learned
+  // span lookup failing without a database out of the report
+  const { log, warn, error } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+
+  getLogsCalls = 0;
+  maxBlockSpan = Number(LEGACY_BLOCKS_PER_REQUEST);
+  const legacyLogs = await fetchLogsPerEvent(client);
+  const legacyCalls = getLogsCalls;
+
+  const fetchCombined = async (network: string) => {
+    getLogsCalls = 0;
+    rejectedCalls = 0;
+    const result = await IndexerService.fetchLogs(client, {
+      address: CONTRACT_ADDRESS,
+      abi,
+      eventSignatures: IndexerService.extractEventSignatures(abi, []),
+      network,
+      provider: `http://127.0.0.1:${port}`,
+      fromBlock: FROM_BLOCK,
+      toBlock: TO_BLOCK,
+    });
+    return { result, calls: getLogsCalls, rejected: rejectedCalls };
+  };
+
+  // Same span as the legacy loop: the first span increase is rejected and caps it
+  const combined = await fetchCombined('benchmark');
+
+  // Learned spans are kept per network, so this run starts from the default again
+  maxBlockSpan = null;
+  const adaptive = await fetchCombined('benchmark-adaptive');
+
+  console.log = log;
+  console.warn = warn;
+  console.error = error;
+  server.close();
+
+  const blocks = TO_BLOCK - FROM_BLOCK + BigInt(1);
+  console.log(`Indexed ${blocks} blocks, ${eventAbis.length} tracked events, ${LEGACY_BLOCKS_PER_REQUEST}-block batches`);
+  console.log(`  one call per event per batch: ${legacyCalls} eth_getLogs calls, ${legacyLogs.length} logs`);
+  console.log(`  one call per batch:           ${combined.calls} eth_getLogs calls (+${combined.rejected} rejected), ${combined.result.logs.length} logs`);
+  console.log(`  reduction from the combined filter: ${(legacyCalls / combined.calls).toFixed(1)}x`);
+  console.log(`Without a span cap the adaptive span grows on sparse batches: ${adaptive.calls} eth_getLogs calls, ${adaptive.result.logs.length} logs`);
+
+  const legacyKeys = new Set(legacyLogs.map(logKey));
+  const sameLogs = (logs: Log[]) => logs.length === legacyLogs.length && logs.every(l => legacyKeys.has(logKey(l)));
+
+  for (const run of [combined, adaptive]) {
+    if (!sameLogs(run.result.logs) || run.result.failedRanges.length > 0) {
+      console.error('❌ Combined fetch returned different logs');
+      process.exit(1);
+    }
+  }
+  if (legacyCalls !== combined.calls * eventAbis.length) {
+    console.error(`❌ Expected ${legacyCalls / eventAbis.length} combined eth_getLogs calls at the same span, got ${combined.calls}`);
+    process.exit(1);
+  }
+
+  console.log('✅ Same logs with one eth_getLogs call per batch instead of one per event');
+};
+
+main().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+// Webhook delivery against a local HTTP receiver, no database needed:
+//   npx tsx test/webhook-receiver.ts
+// Sends a signed payload to a receiver that verifies the HMAC signature and fails the
+// first attempts, checks that a wrong secret is rejected, that redirects aren't followed,
+// that requests connect to the checked address, that argument filters match and that
+// loopback and private receiver URLs are refused.
+//
+// To receive real deliveries from the worker, run the receiver on its own and register
+// http://localhost:4000 with createWebhook(input: { url, secret }), with
+// WEBHOOK_ALLOW_PRIVATE_URLS=true set for the server and the worker:
+//   npx tsx test/webhook-receiver.ts --listen 4000 <secret>
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebhookService } from '../app/lib/webhooks';
+import type { Event, Webhook } from '../app/generated/prisma';
+
+const SECRET = 'local-receiver-secret-0123456789';
+// Attempts the receiver answers with 503 before accepting
+const FAILED_ATTEMPTS = 2;
+
+const startReceiver = (secret: string, failedAttempts: number, port = 0) => {
+  const received: { deliveryId: string; body: unknown }[] = [];
+  let attempts = 0;
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const timestamp = String(req.headers['x-webhook-timestamp'] ?? '');
+      const signature = String(req.headers['x-webhook-signature'] ?? '');
+      const deliveryId = String(req.headers['x-webhook-delivery'] ?? '');
+
+      if (!WebhookService.verifySignature(secret, timestamp, body, signature)) {
+        console.log(`  receiver: rejected delivery ${deliveryId}, bad signature`);
+        res.statusCode = 401;
+        res.end();
+        return;
+      }
+
+      attempts += 1;
+      if (attempts <= failedAttempts) {
+        console.log(`  receiver: failing attempt ${attempts} of delivery ${deliveryId}`);
+        res.statusCode = 503;
+        res.end();
+        return;
+      }
+
+      received.push({ deliveryId, body: JSON.parse(body) });
+      console.log(`  receiver: accepted delivery ${deliveryId}`);
+      console.log(`  ${body}`);
+      res.statusCode = 204;
+      res.end();
+    });
+  });
+
+  return new Promise<{ server: ReturnType<typeof createServer>; received: typeof received }>(resolve => {
+    server.listen(port, '127.0.0.1', () => resolve({ server, received }));
+  });
+};
+
+const sampleEvent = {
+  id: 'evt_local_1',
+  network: 'sepolia',
+  contractAddress: '0x1234567890123456789012345678901234567890',
+  eventName: 'Transfer',
+  blockNumber: BigInt(6000000),
+  blockHash: '0x' + 'ab'.repeat(32),
+  blockTimestamp: new Date('2026-01-01T00:00:00Z'),
+  transactionHash: '0x' + 'cd'.repeat(32),
+  logIndex: 3,
+  status: 'pending',
+  args: {
+    from: { position: 0, type: 'address', indexed: true, hashed: false, value: '0xAbC0000000000000000000000000000000000001' },
+    to: { position: 1, type: 'address', indexed: true, hashed: false, value: '0x0000000000000000000000000000000000000002' },
+    value: { position: 2, type: 'uint256', indexed: false, hashed: false, value: '1000' },
+    memo: { position: 3, type: 'string', indexed: false, hashed: false, value: 'Payment' },
+  },
+} as unknown as Event;
+
+const webhookWith = (overrides: Partial<Webhook>) => ({
+  contractAddress: null,
+  network: null,
+  eventNames: [],
+  argFilters: [],
+  ...overrides,
+}) as unknown as Webhook;
+
+const main = async () => {
+  if (process.argv[2] === '--listen') {
+    const port = Number(process.argv[3] || 4000);
+    const secret = process.argv[4] || SECRET;
+    await startReceiver(secret, 0, port);
+    console.log(`Webhook receiver listening on http://localhost:${port}, verifying with secret ${secret}`);
+    return;
+  }
+
+  const { server, received } = await startReceiver(SECRET, FAILED_ATTEMPTS);
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const payload = WebhookService.buildPayload(sampleEvent);
+  let failures = 0;
+
+  console.log('Retries until the receiver accepts:');
+  let attempt = 0;
+  let result;
+  do {
+    attempt += 1;
+    result = await WebhookService.send({ id: 'wh_local', url, secret: SECRET }, 'dlv_local_1', payload);
+    console.log(`  attempt ${attempt}: ${result.ok ? 'delivered' : result.error}`);
+  } while (!result.ok && attempt < FAILED_ATTEMPTS + 1);
+
+  if (!result.ok || received.length !== 1) {
+    console.log('❌ Delivery was not accepted after the failing attempts');
+    failures += 1;
+  }
+
+  console.log('Wrong secret:');
+  const forged = await WebhookService.send({ id: 'wh_local', url, secret: 'not-the-receiver-secret' }, 'dlv_local_2', payload);
+  if (forged.ok || forged.status !== 401) {
+    console.log('❌ A payload signed with the wrong secret was accepted');
+    failures += 1;
+  }
+
+  console.log('Redirects:');
+  const redirector = createServer((req, res) => {
+    req.resume();
+    res.writeHead(307, { Location: 'http://169.254.169.254/latest/meta-data/' });
+    res.end();
+  });
+  await new Promise<void>(resolve => redirector.listen(0, '127.0.0.1', resolve));
+  const redirected = await WebhookService.send(
+    { id: 'wh_local', url: `http://127.0.0.1:${(redirector.address() as AddressInfo).port}`, secret: SECRET },
+    'dlv_local_3',
+    payload
+  );
+  redirector.close();
+  console.log(`  ${redirected.error}`);
+  if (redirected.ok || redirected.status !== 307) {
+    console.log('❌ A redirect was followed or counted as delivered');
+    failures += 1;
+  }
+
+  console.log('Pinned address:');
+  // The host doesn't resolve; the request must use the address it was checked against
+  const pinnedUrl = `http://receiver.invalid:${(server.address() as AddressInfo).port}`;
+  const pinned = await WebhookService.send({ id: 'wh_local', url: pinnedUrl, secret: SECRET }, 'dlv_local_4', payload, [{ address: '127.0.0.1', family: 4 }]);
+  console.log(`  ${pinnedUrl}: ${pinned.ok ? 'delivered to 127.0.0.1' : pinned.error}`);
+  if (!pinned.ok) {
+    console.log('❌ The request did not connect to the checked address');
+    failures += 1;
+  }
+
+  console.log('Filters:');
+  const cases: [string, Webhook, boolean][] = [
+    ['no filters', webhookWith({}), true],
+    ['event name', webhookWith({ eventNames: ['Approval'] }), false],
+    ['network', webhookWith({ network: 'mainnet' }), false],
+    ['from (checksum-insensitive)', webhookWith({ argFilters: [{ name: 'from', value: '0xabc0000000000000000000000000000000000001' }] } as Partial<Webhook>), true],
+    ['value', webhookWith({ argFilters: [{ name: 'value', value: '999' }] } as Partial<Webhook>), false],
+    ['memo', webhookWith({ argFilters: [{ name: 'memo', value: 'Payment' }] } as Partial<Webhook>), true],
+    ['memo (case-sensitive)', webhookWith({ argFilters: [{ name: 'memo', value: 'payment' }] } as Partial<Webhook>), false],
+    ['unknown argument', webhookWith({ argFilters: [{ name: 'owner', value: '0x1' }] } as Partial<Webhook>), false],
+  ];
+  for (const [label, webhook, expected] of cases) {
+    const matched = WebhookService.matches(webhook, sampleEvent);
+    console.log(`  ${label}: ${matched ? 'matches' : 'no match'}`);
+    if (matched !== expected) {
+      console.log(`❌ Expected ${label} to ${expected ? 'match' : 'not match'}`);
+      failures += 1;
+    }
+  }
+
+  server.close();
+
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS !== 'true') {
+    console.log('Receiver URLs on loopback and private networks:');
+    for (const blockedUrl of ['http://localhost:4000', 'http://127.0.0.1:4000', 'http://10.0.0.5/hook', 'http://[::1]/', 'http://[::ffff:192.168.1.1]/', 'http://169.254.169.254/']) {
+      // Refused before the database is reached
+      const rejected = await WebhookService.createWebhook({ url: blockedUrl })
+        .then(() => false, (error: Error) => /loopback or private/.test(error.message));
+      console.log(`  ${blockedUrl}: ${rejected ? 'rejected' : 'accepted'}`);
+      if (!rejected) {
+        console.log(`❌ Expected ${blockedUrl} to be rejected`);
+        failures += 1;
+      }
+    }
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+  console.log('✅ Signed delivery, retries, redirects, pinned addresses, filters and URL checks behave as expected');
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
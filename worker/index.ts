@@ -0,0 +1,195 @@
+// Background indexing worker: drains queued indexing jobs and follows the chain head
+// for every active contract.
+// Run locally with `npm run worker` (or `npx tsx worker/index.ts`).
+import { prisma, DatabaseService } from '../app/lib/database';
+import { BlockchainService } from '../app/lib/blockchain';
+import { IndexerService, ABIItem, TopicFilter } from '../app/lib/indexer';
+import { JobService } from '../app/lib/jobs';
+import { GapService } from '../app/lib/gaps';
+import { CheckpointService } from '../app/lib/checkpoints';
+import { FinalityService } from '../app/lib/finality';
+import { WebhookService } from '../app/lib/webhooks';
+import type { Contract } from '../app/generated/prisma';
+
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_INTERVAL_MS || 15000);
+const JOB_TIME_BUDGET_MS = Number(process.env.INDEXER_JOB_TIME_BUDGET_MS || 60000);
+const MAX_BLOCKS_PER_PASS = BigInt(process.env.INDEXER_MAX_BLOCKS_PER_PASS || 5000);
+
+// Contracts without any checkpoint start this many blocks behind the head
+const INITIAL_LOOKBACK_BLOCKS = BigInt(1000);
+
+let isRunning = true;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resume from the checkpoint of the tracked event set, falling back to IndexingStatus,
+// Contract.lastIndexedBlock and then the recent head
+const getResumeBlock = async (contract: Contract, eventSet: string, headBlock: bigint) => {
+  const checkpoint = await CheckpointService.getCheckpoint(contract.address, contract.network, eventSet);
+  if (checkpoint) {
+    return checkpoint.lastScannedBlock + BigInt(1);
+  }
+
+  const status = await DatabaseService.getIndexingStatus(contract.address, contract.network);
+
+  if (status) {
+    return status.lastIndexedBlock + BigInt(1);
+  }
+
+  if (contract.lastIndexedBlock !== null) {
+    return contract.lastIndexedBlock + BigInt(1);
+  }
+
+  const startBlock = headBlock - INITIAL_LOOKBACK_BLOCKS;
+  return startBlock < BigInt(0) ? BigInt(0) : startBlock;
+};
+
+const indexContract = async (contract: Contract, headBlock: bigint) => {
+  const abi = contract.abi as unknown as ABIItem[];
+  const { eventSignatures, topicFilters } = IndexerService.resolveTracking(
+    abi,
+    contract.trackedEvents,
+    contract.topicFilters as unknown as TopicFilter[]
+  );
+
+  if (eventSignatures.length === 0 && topicFilters.length === 0) {
+    console.warn(`[worker] No trackable events in ABI for ${contract.address} (${contract.network}), skipping`);
+    return;
+  }
+
+  const eventSet = CheckpointService.eventSetKey(eventSignatures.map(eventSig => eventSig.name), topicFilters);
+  const fromBlock = await getResumeBlock(contract, eventSet, headBlock);
+
+  if (fromBlock > headBlock) {
+    // Caught up: refresh lastIndexedAt so the dashboard sees the worker is alive
+    await DatabaseService.updateIndexingStatus(contract.address, contract.network, headBlock);
+    return;
+  }
+
+  const maxToBlock = fromBlock + MAX_BLOCKS_PER_PASS - BigInt(1);
+  const toBlock = maxToBlock < headBlock ? maxToBlock : headBlock;
+
+  console.log(`[worker] Indexing ${contract.address} (${contract.network}) blocks ${fromBlock}-${toBlock}`);
+
+  const result = await IndexerService.indexRange({
+    contractAddress: contract.address as `0x${string}`,
+    abi,
+    eventSignatures,
+    topicFilters,
+    network: contract.network,
+    fromBlock,
+    toBlock,
+    currentBlock: headBlock,
+    contractName: contract.name ?? undefined,
+  });
+
+  // indexRange checkpoints the scanned range with its events; failed batches were recorded
+  // as gaps and are retried separately
+  console.log(`[worker] ${contract.address}: ${result.logs.length} events, ${result.gaps.length} gaps, scanned through ${result.scannedToBlock}, database ${result.database.status}`);
+};
+
+const runPass = async () => {
+  const contracts = await DatabaseService.getActiveContracts();
+  const backfilling = await JobService.getBackfillingContracts();
+  const headBlocks = new Map<string, bigint>();
+
+  for (const contract of contracts) {
+    if (!isRunning) break;
+
+    // The job scans its range chunk by chunk; following the head now would scan it again
+    // from the job's first checkpoint. The pass resumes after the job's checkpoint once it ends.
+    if (backfilling.has(`${contract.network}:${contract.address}`)) {
+      continue;
+    }
+
+    try {
+      let headBlock = headBlocks.get(contract.network);
+      if (headBlock === undefined) {
+        headBlock = await BlockchainService.getLatestBlockNumber(contract.network);
+        headBlocks.set(contract.network, headBlock);
+      }
+
+      await indexContract(contract, headBlock);
+    } catch (error) {
+      console.error(`[worker] Error indexing ${contract.address} (${contract.network}):`, error);
+      // Continue with other contracts even if one fails
+    }
+  }
+
+  // Promote stored events the chain has confirmed or finalized since they were indexed
+  for (const [network, headBlock] of headBlocks) {
+    try {
+      const promoted = await FinalityService.promoteEvents(network, headBlock);
+      if (promoted.confirmed > 0 || promoted.finalized > 0) {
+        console.log(`[worker] ${network}: ${promoted.confirmed} events confirmed, ${promoted.finalized} finalized`);
+      }
+    } catch (error) {
+      console.error(`[worker] Error promoting events on ${network}:`, error);
+    }
+  }
+
+  return contracts.length;
+};
+
+const main = async () => {
+  console.log(`[worker] Starting indexing worker (poll interval ${POLL_INTERVAL_MS}ms)`);
+
+  while (isRunning) {
+    try {
+      // Queued backfill jobs first, bounded so the head-following pass still runs
+      const processedChunks = await JobService.processQueue(JOB_TIME_BUDGET_MS);
+      if (processedChunks > 0) {
+        console.log(`[worker] Processed ${processedChunks} job chunks`);
+      }
+
+      // Retry failed ranges whose backoff has elapsed
+      const gapRetries = await GapService.retryDueGaps();
+      if (gapRetries.attempted > 0) {
+        console.log(`[worker] Retried ${gapRetries.attempted} gaps, ${gapRetries.resolved} resolved`);
+      }
+
+      const contractCount = await runPass();
+      console.log(`[worker] Pass complete for ${contractCount} active contracts`);
+
+      // Push newly stored events to webhooks and retry failed deliveries
+      const webhookDeliveries = await WebhookService.deliverDue();
+      if (webhookDeliveries.attempted > 0) {
+        console.log(`[worker] Sent ${webhookDeliveries.attempted} webhook deliveries, ${webhookDeliveries.delivered} delivered`);
+      }
+
+      // Fill in block timestamps and decoded args of rows stored without them, a bounded
+      // batch per loop so indexing itself doesn't pay for it
+      const timestampBackfill = await DatabaseService.backfillEventTimestamps();
+      if (timestampBackfill.updatedEvents > 0) {
+        console.log(`[worker] Backfilled timestamps for ${timestampBackfill.updatedEvents} events`);
+      }
+      const argsBackfill = await DatabaseService.backfillEventArgs();
+      if (argsBackfill.decodedEvents > 0) {
+        console.log(`[worker] Backfilled decoded args for ${argsBackfill.decodedEvents} events`);
+      }
+    } catch (error) {
+      console.error('[worker] Indexing pass failed:', error);
+    }
+
+    if (isRunning) {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  await prisma.$disconnect();
+  console.log('[worker] Stopped');
+};
+
+const stop = () => {
+  console.log('[worker] Shutting down after the current pass...');
+  isRunning = false;
+};
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+main().catch(async (error) => {
+  console.error('[worker] Fatal error:', error);
+  await prisma.$disconnect();
+  process.exit(1);
+});